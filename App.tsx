@@ -1,50 +1,511 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { PivotTable } from './components/PivotTable';
 import { ClientSearch } from './components/ClientSearch';
-import { parseExcel, generateReport, exportReportToExcel, exportClientSearchToExcel } from './utils/dataProcessor';
-import { ProcessedRow, ReportType } from './types';
-import { BarChart3, Calculator, ShoppingCart, ShieldCheck, FileSpreadsheet, Search } from 'lucide-react';
+import { FilterPanel } from './components/FilterPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { ValidationPanel } from './components/ValidationPanel';
+import { TaxSettingsPanel } from './components/TaxSettingsPanel';
+import { CurrencySettingsPanel } from './components/CurrencySettingsPanel';
+import { SheetSelector } from './components/SheetSelector';
+import { PivotBuilder } from './components/PivotBuilder';
+import { DrillDownPanel } from './components/DrillDownPanel';
+import { ClientDetailPanel } from './components/ClientDetailPanel';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { SnapshotHistory } from './components/SnapshotHistory';
+import { ChartsDashboard } from './components/ChartsDashboard';
+import { FilterChips } from './components/FilterChips';
+import { describeReportParameters, getCombinedHeaders, exportAllToExcel, exportReportToExcel, exportClientSearchToExcel, exportDrillDownToExcel, createDefaultFilterRules } from './utils/dataProcessor';
+import { autoDetectMapping, getHeaderSignature, loadSavedMapping, saveMapping } from './utils/columnMapping';
+import { excludeIssueRows } from './utils/validation';
+import { PIVOT_PRESETS, hasLineAmounts, loadSavedPresets, savePresets } from './utils/pivotEngine';
+import { ACCEPTED_EXTENSIONS } from './utils/fileImport';
+import {
+  LoadCancelledError,
+  cancelWorkerTasks,
+  combineSheetsInWorker,
+  generateReportInWorker,
+  getClientDetailInWorker,
+  getDrillDownRowsInWorker,
+  getReportLinesInWorker,
+  parseFilesInWorker,
+  searchRowsInWorker,
+  setWorkerDataset,
+  validateRowsInWorker,
+} from './utils/workerClient';
+import { applyPivotFilters } from './utils/columnFilters';
+import { listSnapshots, loadSnapshot, saveSnapshot, updateSnapshotFilters, deleteSnapshot } from './utils/snapshotStore';
+import { loadTaxSettings, saveTaxSettings, getAmountBasisLabel, formatTaxRate } from './utils/taxSettings';
+import { describeUnconverted, loadCurrencySettings, saveCurrencySettings } from './utils/currency';
+import { exportReportToPdf, exportReportsToPdf } from './utils/pdfExport';
+import { CHART_FOCUS_LABELS, GROUP_SHARE_PIVOT, toggleChartFocus } from './utils/chartData';
+import { AmountBasis, ChartFocus, ClientDetail, ColumnFilters, ColumnMapping, CurrencySettings, DashboardReports, DrillDownTarget, FilterRules, LoadProgress, PivotConfig, PivotMeasure, PivotPreset, ProcessedRow, RawSheet, ReportResult, ReportType, SnapshotSummary, TaxSettings, TimeGranularity, ValidationIssue, ValidationIssueType } from './types';
+import { BarChart3, Calculator, ShoppingCart, ShieldCheck, FileSpreadsheet, Search, Filter, Columns, AlertTriangle, Percent, CalendarDays, Hourglass, LayoutGrid, GitCompare, X, Loader2, Coins, Users, PieChart, Download, FileText } from 'lucide-react';
+
+// Reports that go into the single "Descargar todo" workbook, in tab order
+const FULL_EXPORT_REPORTS = [ReportType.ORDER_COUNT, ReportType.NET_AMOUNT, ReportType.PRODUCT_LIST];
 
 function App() {
   const [rawData, setRawData] = useState<ProcessedRow[] | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  // Bumped on cancel so reports lost with the stopped worker are requested again
+  const [workerRestarts, setWorkerRestarts] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<ReportType>(ReportType.ORDER_COUNT);
   const [clientSearchTerm, setClientSearchTerm] = useState('');
+  const [filterRules, setFilterRules] = useState<FilterRules>({
+    excludedStatuses: [],
+    allowedGroups: [],
+    dateField: 'postingDate',
+    dateFrom: '',
+    dateTo: '',
+  });
+  const [showFilters, setShowFilters] = useState(false);
+  const [pendingSheets, setPendingSheets] = useState<RawSheet[] | null>(null);
+  const [sourceSheets, setSourceSheets] = useState<RawSheet[] | null>(null);
+  const [sourceFileName, setSourceFileName] = useState('');
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [showMappingWizard, setShowMappingWizard] = useState(false);
+  const [excludedIssueTypes, setExcludedIssueTypes] = useState<ValidationIssueType[]>([]);
+  const [showValidation, setShowValidation] = useState(false);
+  // Set by a new import, so the quality panel opens once its issues are known
+  const revealIssuesRef = useRef(false);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(loadTaxSettings);
+  const [showTaxSettings, setShowTaxSettings] = useState(false);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(loadCurrencySettings);
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
+  const [amountBasis, setAmountBasis] = useState<AmountBasis>(AmountBasis.NET);
+  const [timeGranularity, setTimeGranularity] = useState<TimeGranularity>(TimeGranularity.MONTH);
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>(PIVOT_PRESETS[ReportType.ORDER_COUNT].config);
+  const [savedPivotPresets, setSavedPivotPresets] = useState<PivotPreset[]>(loadSavedPresets);
+  const [drillDown, setDrillDown] = useState<DrillDownTarget | null>(null);
+  const [detailClient, setDetailClient] = useState<string | null>(null);
+  const [pivotColumnFilters, setPivotColumnFilters] = useState<ColumnFilters>({});
+  // Widths of the pivot columns as last resized on screen, reused by the Excel export
+  const [pivotColumnWidths, setPivotColumnWidths] = useState<{ [key: string]: number }>({});
+  const [exportingAll, setExportingAll] = useState(false);
+  const [clientColumnFilters, setClientColumnFilters] = useState<ColumnFilters>({});
+  const [baselineData, setBaselineData] = useState<ProcessedRow[] | null>(null);
+  const [baselineFileName, setBaselineFileName] = useState('');
+  const baselineInputRef = useRef<HTMLInputElement>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [activeSnapshot, setActiveSnapshot] = useState<SnapshotSummary | null>(null);
+
+  const handleSavedPresetsChange = (presets: PivotPreset[]) => {
+    setSavedPivotPresets(presets);
+    savePresets(presets);
+  };
+
+  const handlePivotConfigChange = (config: PivotConfig) => {
+    // Row label filters hold keys of the previous row dimension
+    if (config.rowDimension !== pivotConfig.rowDimension) setPivotColumnFilters({});
+    setPivotConfig(config);
+  };
+
+  const handleTaxSettingsChange = (settings: TaxSettings) => {
+    setTaxSettings(settings);
+    saveTaxSettings(settings);
+  };
+
+  const handleCurrencySettingsChange = (settings: CurrencySettings) => {
+    setCurrencySettings(settings);
+    saveCurrencySettings(settings);
+  };
+
+  const refreshSnapshots = () => {
+    listSnapshots().then(setSnapshots).catch(console.error);
+  };
 
-  const handleFileUpload = async (file: File) => {
+  // Every processed upload is kept in the local history; re-mapping an upload replaces its snapshot
+  const persistSnapshot = async (sheets: RawSheet[], mapping: ColumnMapping, rows: ProcessedRow[], filters: FilterRules, previous: SnapshotSummary | null) => {
+    try {
+      const fileName = previous?.fileName || Array.from(new Set(sheets.map(s => s.sourceFile))).join(', ');
+      const uploadedAt = previous?.uploadedAt || new Date();
+      const id = await saveSnapshot({ id: previous?.id, fileName, uploadedAt, rowCount: rows.length, filters, sheets, mapping, rows });
+      setActiveSnapshot({ id, fileName, uploadedAt, rowCount: rows.length, filters });
+    } catch (err) {
+      // The history is a convenience: reports keep working without it (e.g. storage full or blocked)
+      console.error(err);
+    }
+  };
+
+  // A cancelled load is not an error: the user is simply back where they started
+  const reportLoadError = (err: unknown, message: string) => {
+    if (err instanceof LoadCancelledError) return;
+    console.error(err);
+    setError(message);
+  };
+
+  const applyMapping = async (sheets: RawSheet[], mapping: ColumnMapping, previous: SnapshotSummary | null) => {
+    setLoading(true);
+    try {
+      const data = await combineSheetsInWorker(sheets, mapping, setLoadProgress);
+      const rules = createDefaultFilterRules(data);
+      setColumnMapping(mapping);
+      setFilterRules(rules);
+      setExcludedIssueTypes([]);
+      // Open the quality panel as soon as validation finds problems in the import
+      revealIssuesRef.current = true;
+      setRawData(data);
+      persistSnapshot(sheets, mapping, data, rules, previous);
+    } catch (err) {
+      reportLoadError(err, "Error al procesar las filas del archivo.");
+    } finally {
+      setLoading(false);
+      setLoadProgress(null);
+    }
+  };
+
+  const loadSheets = async (sheets: RawSheet[]) => {
+    const headers = getCombinedHeaders(sheets);
+    setSourceSheets(sheets);
+    setSourceFileName(Array.from(new Set(sheets.map(s => s.sourceFile))).join(', '));
+
+    // Layouts mapped before are applied directly; new ones go through the wizard
+    const savedMapping = loadSavedMapping(getHeaderSignature(headers));
+    if (savedMapping) {
+      await applyMapping(sheets, savedMapping, null);
+    } else {
+      setColumnMapping(autoDetectMapping(headers));
+      setShowMappingWizard(true);
+    }
+  };
+
+  const handleFilesUpload = async (files: File[]) => {
     setLoading(true);
     setError(null);
     try {
-      const data = await parseExcel(file);
-      if (data.length === 0) {
+      const sheets = await parseFilesInWorker(files, setLoadProgress);
+      const sheetsWithData = sheets.filter(s => s.rows.length > 0);
+      if (sheetsWithData.length === 0) {
         throw new Error("El archivo no contiene datos válidos o está vacío.");
       }
-      setRawData(data);
+
+      // Several sheets or files: let the user pick which ones to combine
+      if (sheets.length > 1) {
+        setPendingSheets(sheets);
+      } else {
+        await loadSheets(sheetsWithData);
+      }
     } catch (err) {
+      reportLoadError(err, "Error al procesar el archivo. Asegúrate de que es un Excel, ODS o CSV válido.");
+    } finally {
+      setLoading(false);
+      setLoadProgress(null);
+    }
+  };
+
+  const handleCancelLoad = () => {
+    cancelWorkerTasks();
+    setWorkerRestarts(prev => prev + 1);
+  };
+
+  const handleSheetsConfirm = (sheets: RawSheet[]) => {
+    setPendingSheets(null);
+    loadSheets(sheets);
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping) => {
+    if (!sourceSheets) return;
+    saveMapping(getHeaderSignature(getCombinedHeaders(sourceSheets)), mapping);
+    applyMapping(sourceSheets, mapping, activeSnapshot);
+    setShowMappingWizard(false);
+  };
+
+  const handleMappingCancel = () => {
+    setShowMappingWizard(false);
+    // Cancelling the first mapping discards the file
+    if (!rawData) setSourceSheets(null);
+  };
+
+  const handleReset = () => {
+    setRawData(null);
+    setValidation(null);
+    setBaselineValidation(null);
+    setClientSearchRows([]);
+    setSourceSheets(null);
+    setDrillDown(null);
+    setDetailClient(null);
+    setBaselineData(null);
+    setActiveSnapshot(null);
+    setPivotColumnFilters({});
+    setClientColumnFilters({});
+  };
+
+  const handleOpenSnapshot = async (id: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snapshot = await loadSnapshot(id);
+      if (!snapshot) {
+        throw new Error("La carga guardada ya no existe.");
+      }
+      const { sheets, mapping, rows, ...summary } = snapshot;
+      setSourceSheets(sheets);
+      setSourceFileName(summary.fileName);
+      setColumnMapping(mapping);
+      setFilterRules(summary.filters);
+      setExcludedIssueTypes([]);
+      setShowValidation(false);
+      setActiveSnapshot(summary);
+      setRawData(rows);
+    } catch (err) {
+      console.error(err);
+      setError("No se pudo abrir la carga guardada.");
+      refreshSnapshots();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSnapshot = async (id: number) => {
+    try {
+      await deleteSnapshot(id);
+    } catch (err) {
+      console.error(err);
+    }
+    refreshSnapshots();
+  };
+
+  // The history list is refreshed whenever the upload screen is shown
+  useEffect(() => {
+    if (!rawData) refreshSnapshots();
+  }, [rawData]);
+
+  // The snapshot remembers the filters it was last viewed with
+  const activeSnapshotId = activeSnapshot?.id;
+  useEffect(() => {
+    if (activeSnapshotId === undefined) return;
+    updateSnapshotFilters(activeSnapshotId, filterRules).catch(console.error);
+  }, [activeSnapshotId, filterRules]);
+
+  // Earlier snapshot to compare against, read with its saved layout or the current file's mapping
+  const handleBaselineUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setLoading(true);
+    try {
+      const sheets = (await parseFilesInWorker(files)).filter(s => s.rows.length > 0);
+      if (sheets.length === 0) {
+        throw new Error("El archivo base no contiene datos válidos o está vacío.");
+      }
+      const mapping = loadSavedMapping(getHeaderSignature(getCombinedHeaders(sheets))) || columnMapping;
+      setBaselineData(await combineSheetsInWorker(sheets, mapping));
+      setBaselineFileName(files.map(f => f.name).join(', '));
+    } catch (err) {
+      if (err instanceof LoadCancelledError) return;
       console.error(err);
-      setError("Error al procesar el archivo. Asegúrate de que es un Excel válido (.xlsx).");
+      alert("Error al procesar el archivo base. Asegúrate de que es un Excel, ODS o CSV válido.");
     } finally {
       setLoading(false);
     }
   };
 
-  const report = useMemo(() => {
-    if (!rawData || activeTab === ReportType.CLIENT_SEARCH) return null;
-    return generateReport(rawData, activeTab);
-  }, [rawData, activeTab]);
+  const handleTabChange = (tab: ReportType) => {
+    setActiveTab(tab);
+    // A clicked cell and column filters only make sense in the report they came from
+    setDrillDown(null);
+    setDetailClient(null);
+    setPivotColumnFilters({});
+  };
+
+  // Rows are validated in the worker; the issues are kept with the rows they belong to
+  const [validation, setValidation] = useState<{ rows: ProcessedRow[]; issues: ValidationIssue[] } | null>(null);
+  useEffect(() => {
+    if (!rawData) return;
+    let superseded = false;
+    validateRowsInWorker(rawData)
+      .then(issues => {
+        if (superseded) return;
+        setValidation({ rows: rawData, issues });
+        if (revealIssuesRef.current) setShowValidation(issues.length > 0);
+        revealIssuesRef.current = false;
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [rawData, workerRestarts]);
+
+  const [baselineValidation, setBaselineValidation] = useState<{ rows: ProcessedRow[]; issues: ValidationIssue[] } | null>(null);
+  useEffect(() => {
+    if (!baselineData) return;
+    let superseded = false;
+    validateRowsInWorker(baselineData)
+      .then(issues => {
+        if (!superseded) setBaselineValidation({ rows: baselineData, issues });
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [baselineData, workerRestarts]);
+
+  const validationIssues = useMemo(
+    () => (rawData && validation?.rows === rawData ? validation.issues : []),
+    [rawData, validation]
+  );
+
+  // Rows that feed every report, once validated and the user's exclusions are applied
+  const validData = useMemo(() => {
+    if (!rawData || validation?.rows !== rawData) return null;
+    return excludeIssueRows(rawData, validation.issues, excludedIssueTypes);
+  }, [rawData, validation, excludedIssueTypes]);
+
+  // The baseline drops the same kinds of problem rows as the current file
+  const validBaseline = useMemo(() => {
+    if (!baselineData || baselineValidation?.rows !== baselineData) return null;
+    return excludeIssueRows(baselineData, baselineValidation.issues, excludedIssueTypes);
+  }, [baselineData, baselineValidation, excludedIssueTypes]);
 
-  const handleDownload = () => {
+  const reportOptions = useMemo(
+    () => ({ rules: filterRules, tax: taxSettings, currency: currencySettings, amountBasis, timeGranularity, pivot: pivotConfig }),
+    [filterRules, taxSettings, currencySettings, amountBasis, timeGranularity, pivotConfig]
+  );
+
+  // Reports are built in the worker, which keeps its own copy of the rows and the baseline
+  useEffect(() => {
+    setWorkerDataset(validData, validBaseline);
+  }, [validData, validBaseline]);
+
+  const [reportState, setReportState] = useState<{ type: ReportType; report: ReportResult } | null>(null);
+  useEffect(() => {
+    if (!validData || activeTab === ReportType.CLIENT_SEARCH || activeTab === ReportType.DASHBOARD) return;
+    // Results of requests overtaken by newer ones are dropped
+    let superseded = false;
+    generateReportInWorker(activeTab, reportOptions)
+      .then(result => {
+        if (!superseded) setReportState({ type: activeTab, report: result });
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [validData, validBaseline, activeTab, reportOptions, workerRestarts]);
+
+  // Until the first result for a tab arrives, nothing is shown rather than another tab's layout
+  const report = reportState?.type === activeTab ? reportState.report : null;
+
+  // The charts tab draws from several reports at once, requested together
+  const [dashboardReports, setDashboardReports] = useState<DashboardReports | null>(null);
+  useEffect(() => {
+    if (!validData || activeTab !== ReportType.DASHBOARD) return;
+    let superseded = false;
+    Promise.all([
+      generateReportInWorker(ReportType.NET_AMOUNT, reportOptions),
+      generateReportInWorker(ReportType.PRODUCT_LIST, reportOptions),
+      generateReportInWorker(ReportType.CUSTOM_PIVOT, { ...reportOptions, pivot: GROUP_SHARE_PIVOT }),
+    ])
+      .then(([amounts, products, groups]) => {
+        if (superseded) return;
+        // The amounts report carries its basis; the options it was requested with are the explicit fallback
+        setDashboardReports({
+          amounts: { ...amounts, amountBasis: amounts.amountBasis ?? reportOptions.amountBasis, taxRate: amounts.taxRate ?? reportOptions.tax.rate },
+          products,
+          groups,
+        });
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [validData, activeTab, reportOptions, workerRestarts]);
+
+  const chartFocus = filterRules.chartFocus || [];
+  const handleChartSelect = (selection: ChartFocus[]) => {
+    setFilterRules(prev => ({ ...prev, chartFocus: toggleChartFocus(prev.chartFocus || [], selection) }));
+  };
+
+  // Lines behind the clicked cell, kept in sync with filters and settings while the panel is open
+  const [drillDownState, setDrillDownState] = useState<{ target: DrillDownTarget; rows: ProcessedRow[] } | null>(null);
+  useEffect(() => {
+    if (!validData || !drillDown) return;
+    let superseded = false;
+    getDrillDownRowsInWorker(activeTab, reportOptions, drillDown)
+      .then(rows => {
+        if (!superseded) setDrillDownState({ target: drillDown, rows });
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [validData, activeTab, reportOptions, drillDown, workerRestarts]);
+  const drillDownRows = useMemo(
+    () => (drillDown && drillDownState?.target === drillDown ? drillDownState.rows : []),
+    [drillDown, drillDownState]
+  );
+
+  const [clientDetailState, setClientDetailState] = useState<ClientDetail | null>(null);
+  useEffect(() => {
+    if (!validData || !detailClient) return;
+    let superseded = false;
+    getClientDetailInWorker(reportOptions, detailClient)
+      .then(detail => {
+        if (!superseded) setClientDetailState(detail);
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [validData, reportOptions, detailClient, workerRestarts]);
+  const clientDetail = clientDetailState?.clientName === detailClient ? clientDetailState : null;
+
+  // Lines matching the client search, before the grid's column filters
+  const [clientSearchRows, setClientSearchRows] = useState<ProcessedRow[]>([]);
+  useEffect(() => {
+    if (!validData || activeTab !== ReportType.CLIENT_SEARCH) return;
+    let superseded = false;
+    searchRowsInWorker(clientSearchTerm)
+      .then(rows => {
+        if (!superseded) setClientSearchRows(rows);
+      })
+      .catch(err => {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+      });
+    return () => {
+      superseded = true;
+    };
+  }, [validData, activeTab, clientSearchTerm, workerRestarts]);
+
+  // Without line totals or unit prices, amounts stay on each document's first line
+  const splitsLines = useMemo(() => hasLineAmounts(validData || []), [validData]);
+
+  const isCustomPivot = activeTab === ReportType.CUSTOM_PIVOT;
+  const showsAmounts = activeTab === ReportType.NET_AMOUNT || activeTab === ReportType.PRODUCT_REVENUE
+    || activeTab === ReportType.AGEING || activeTab === ReportType.CLIENT_SUMMARY
+    || (isCustomPivot && pivotConfig.measure === PivotMeasure.NET_AMOUNT);
+  const showsPeriods = activeTab === ReportType.TIMELINE
+    || (isCustomPivot && (pivotConfig.rowDimension === 'period' || pivotConfig.columnDimension === 'period'));
+
+  const handleDownload = async () => {
     const dateStr = new Date().toISOString().split('T')[0];
     
     if (activeTab === ReportType.CLIENT_SEARCH) {
-      if (!rawData) return;
+      if (!validData) return;
       
-      // Filter logic matches the component: if search is empty, export all
-      const filteredData = clientSearchTerm.trim() 
-        ? rawData.filter(row => row.clientName.toLowerCase().includes(clientSearchTerm.toLowerCase()))
-        : rawData;
+      // Same query and column filters as the on-screen grid: if they are empty, export all
+      let filteredData: ProcessedRow[];
+      try {
+        filteredData = await searchRowsInWorker(clientSearchTerm, clientColumnFilters);
+      } catch (err) {
+        if (!(err instanceof LoadCancelledError)) console.error(err);
+        return;
+      }
 
       if (filteredData.length === 0) {
         alert("No hay datos para exportar con la búsqueda actual.");
@@ -58,13 +519,104 @@ function App() {
 
     if (!report) return;
     const filename = `${tabs.find(t => t.id === activeTab)?.label || 'Reporte'}_${dateStr}.xlsx`;
-    exportReportToExcel(report, activeTab, filename);
+    exportReportToExcel(applyPivotFilters(report, pivotColumnFilters), activeTab, filename, pivotColumnWidths);
+  };
+
+  // The reports of the full Excel and PDF packs, each with its tab name
+  const generateFullExportReports = async () => {
+    const reports = await Promise.all(FULL_EXPORT_REPORTS.map(type => generateReportInWorker(type, reportOptions)));
+    return FULL_EXPORT_REPORTS.map((type, idx) => ({ type, name: tabs.find(t => t.id === type)!.label, report: reports[idx] }));
+  };
+
+  const handleDownloadAll = async () => {
+    if (!validData) return;
+    setExportingAll(true);
+    try {
+      const dateStr = new Date().toISOString().split('T')[0];
+      exportAllToExcel(
+        await getReportLinesInWorker(reportOptions),
+        await generateFullExportReports(),
+        await searchRowsInWorker(clientSearchTerm, clientColumnFilters),
+        reportOptions,
+        sourceFileName,
+        clientSearchTerm,
+        `Analisis_Pedidos_${dateStr}.xlsx`
+      );
+    } catch (err) {
+      if (!(err instanceof LoadCancelledError)) console.error(err);
+    } finally {
+      setExportingAll(false);
+    }
+  };
+
+  const handleDownloadPdf = () => {
+    if (!report) return;
+    const dateStr = new Date().toISOString().split('T')[0];
+    const name = tabs.find(t => t.id === activeTab)?.label || 'Reporte';
+    exportReportToPdf(
+      { type: activeTab, name, report: applyPivotFilters(report, pivotColumnFilters) },
+      describeReportParameters(reportOptions, sourceFileName, undefined, report.unconverted),
+      `${name}_${dateStr}.pdf`
+    );
+  };
+
+  const handleDownloadPdfPack = async () => {
+    setExportingAll(true);
+    try {
+      const dateStr = new Date().toISOString().split('T')[0];
+      const sections = await generateFullExportReports();
+      exportReportsToPdf(
+        sections,
+        describeReportParameters(reportOptions, sourceFileName, undefined, sections.find(s => s.report.unconverted)?.report.unconverted),
+        `Analisis_Pedidos_${dateStr}.pdf`
+      );
+    } catch (err) {
+      if (!(err instanceof LoadCancelledError)) console.error(err);
+    } finally {
+      setExportingAll(false);
+    }
+  };
+
+  const handleDrillDownDownload = () => {
+    if (!drillDown) return;
+    const dateStr = new Date().toISOString().split('T')[0];
+    exportDrillDownToExcel(drillDownRows, drillDown.label, `Detalle_${dateStr}.xlsx`);
   };
 
+  const basisOptions = [
+    { id: AmountBasis.NET, label: 'Neto' },
+    { id: AmountBasis.GROSS, label: 'Bruto' },
+    { id: AmountBasis.TAX, label: 'Solo IGV' },
+  ];
+
+  const granularityOptions = [
+    { id: TimeGranularity.MONTH, label: 'Mes' },
+    { id: TimeGranularity.WEEK, label: 'Semana' },
+  ];
+
+  // IGV rate and basis of the report on screen, which may lag the settings being edited;
+  // the settings only stand in until an amount report has been built
+  const shownTaxRate = report?.taxRate ?? dashboardReports?.amounts.taxRate ?? taxSettings.rate;
+  const shownAmountBasis = report?.amountBasis ?? dashboardReports?.amounts.amountBasis ?? amountBasis;
+
+  // Basis the amount tabs currently show, with the exemptions that change it
+  const exemptCount = taxSettings.exemptGroups.length + taxSettings.exemptClients.length;
+  const amountDesc = `${getAmountBasisLabel(shownAmountBasis, shownTaxRate)}, total del documento una vez${
+    exemptCount > 0 ? ` (${exemptCount} ${exemptCount === 1 ? 'exoneración' : 'exoneraciones'})` : ''
+  }`;
+
+  const unconverted = activeTab === ReportType.DASHBOARD ? dashboardReports?.amounts.unconverted : report?.unconverted;
+
   const tabs = [
     { id: ReportType.ORDER_COUNT, label: 'Cantidad de Pedidos', icon: BarChart3, desc: 'Conteo distintivo' },
-    { id: ReportType.NET_AMOUNT, label: 'Montos Netos', icon: Calculator, desc: 'Total Único / 1.18' },
+    { id: ReportType.NET_AMOUNT, label: 'Montos Netos', icon: Calculator, desc: amountDesc },
     { id: ReportType.PRODUCT_LIST, label: 'Lista de Productos', icon: ShoppingCart, desc: 'Detalle Items' },
+    { id: ReportType.PRODUCT_REVENUE, label: 'Ventas por Producto', icon: Coins, desc: 'Monto por artículo y vendedor' },
+    { id: ReportType.TIMELINE, label: 'Evolución por Periodo', icon: CalendarDays, desc: 'Pedidos por mes o semana' },
+    { id: ReportType.AGEING, label: 'Antigüedad de Pedidos', icon: Hourglass, desc: 'Días desde la fecha del documento' },
+    { id: ReportType.CLIENT_SUMMARY, label: 'Resumen por Cliente', icon: Users, desc: 'Pedidos y montos por cliente y vendedor' },
+    { id: ReportType.DASHBOARD, label: 'Gráficos', icon: PieChart, desc: 'Montos, vendedores, productos y grupos' },
+    { id: ReportType.CUSTOM_PIVOT, label: 'Pivot Personalizado', icon: LayoutGrid, desc: 'Filas, columnas y medida a elección' },
     { id: ReportType.CLIENT_SEARCH, label: 'Búsqueda por Cliente', icon: Search, desc: 'Buscar Item y Destino' },
   ];
 
@@ -108,10 +660,22 @@ function App() {
               <h2 className="text-3xl font-extrabold text-slate-900 mb-4 tracking-tight">Cargar Reporte</h2>
               <p className="text-slate-500 text-lg leading-relaxed">
                 Sistema de análisis de pedidos por facturar. 
-                <br />Sube tu archivo Excel para generar el reporte financiero.
+                <br />Sube uno o varios archivos Excel, ODS o CSV para generar el reporte financiero.
               </p>
             </div>
-            <FileUpload onFileUpload={handleFileUpload} isLoading={loading} error={error} />
+            <FileUpload
+              onFilesUpload={handleFilesUpload}
+              isLoading={loading}
+              error={error}
+              progress={loadProgress}
+              onCancel={handleCancelLoad}
+            />
+            <SnapshotHistory
+              snapshots={snapshots}
+              onOpen={handleOpenSnapshot}
+              onDelete={handleDeleteSnapshot}
+              isLoading={loading}
+            />
           </div>
         )}
 
@@ -129,7 +693,8 @@ function App() {
                   return (
                     <button
                       key={tab.id}
-                      onClick={() => setActiveTab(tab.id)}
+                      onClick={() => handleTabChange(tab.id)}
+                      title={tab.desc}
                       className={`
                         group flex items-center gap-2 pb-3 text-sm font-semibold transition-all duration-200 border-b-[3px] whitespace-nowrap
                         ${isActive 
@@ -146,15 +711,161 @@ function App() {
               </div>
 
               <div className="flex items-center gap-3 mb-2 flex-shrink-0">
+                {/* Gross / Net / Tax toggle - only meaningful for amounts */}
+                {showsAmounts && (
+                  <div className="flex text-xs font-semibold border border-gray-300 rounded-lg overflow-hidden shadow-sm">
+                    {basisOptions.map((option, idx) => (
+                      <button
+                        key={option.id}
+                        onClick={() => setAmountBasis(option.id)}
+                        className={`px-3 py-2 transition-colors ${idx > 0 ? 'border-l border-gray-300' : ''} ${
+                          amountBasis === option.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-blue-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {/* Month / Week toggle for the period report */}
+                {showsPeriods && (
+                  <div className="flex text-xs font-semibold border border-gray-300 rounded-lg overflow-hidden shadow-sm">
+                    {granularityOptions.map((option, idx) => (
+                      <button
+                        key={option.id}
+                        onClick={() => setTimeGranularity(option.id)}
+                        className={`px-3 py-2 transition-colors ${idx > 0 ? 'border-l border-gray-300' : ''} ${
+                          timeGranularity === option.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-blue-50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={() => setShowFilters(prev => !prev)}
+                  className={`flex items-center gap-2 text-sm font-medium px-4 py-2 border rounded-lg transition-all shadow-sm active:scale-95 ${
+                    showFilters
+                      ? 'bg-blue-50 border-blue-400 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:text-blue-700 hover:border-blue-400'
+                  }`}
+                >
+                  <Filter className="w-4 h-4" />
+                  Filtros
+                </button>
+                {activeTab !== ReportType.DASHBOARD && activeTab !== ReportType.CLIENT_SEARCH && (
+                  <button
+                    onClick={handleDownloadPdf}
+                    disabled={!report}
+                    className="flex items-center gap-2 text-sm font-semibold px-4 py-2 bg-red-600 text-white hover:bg-red-700 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50"
+                  >
+                    <FileText className="w-4 h-4" />
+                    PDF
+                  </button>
+                )}
+                {activeTab !== ReportType.DASHBOARD && (
+                  <button
+                    onClick={handleDownload}
+                    className="flex items-center gap-2 text-sm font-semibold px-4 py-2 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg shadow-sm transition-all active:scale-95"
+                  >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Descargar Excel
+                  </button>
+                )}
+                <button
+                  onClick={handleDownloadAll}
+                  disabled={exportingAll}
+                  title="Un solo Excel con los reportes, la búsqueda por cliente, las líneas filtradas y los parámetros"
+                  className="flex items-center gap-2 text-sm font-semibold px-4 py-2 border border-emerald-600 bg-white text-emerald-700 hover:bg-emerald-50 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50"
+                >
+                  {exportingAll ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Descargar todo
+                </button>
+                <button
+                  onClick={handleDownloadPdfPack}
+                  disabled={exportingAll}
+                  title="Un solo PDF con Cantidad de Pedidos, Montos Netos y Lista de Productos"
+                  className="flex items-center gap-2 text-sm font-semibold px-4 py-2 border border-red-600 bg-white text-red-700 hover:bg-red-50 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50"
+                >
+                  <FileText className="w-4 h-4" />
+                  PDF completo
+                </button>
+                <button
+                  onClick={() => setShowValidation(prev => !prev)}
+                  className={`flex items-center gap-2 text-sm font-medium px-4 py-2 border rounded-lg transition-all shadow-sm active:scale-95 ${
+                    showValidation
+                      ? 'bg-amber-50 border-amber-400 text-amber-800'
+                      : 'bg-white border-gray-300 text-gray-600 hover:text-blue-700 hover:border-blue-400'
+                  }`}
+                >
+                  <AlertTriangle className={`w-4 h-4 ${validationIssues.length > 0 ? 'text-amber-500' : ''}`} />
+                  Calidad
+                  {validationIssues.length > 0 && (
+                    <span className="text-[10px] font-bold bg-amber-500 text-white rounded-full px-1.5">
+                      {validationIssues.length}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowTaxSettings(prev => !prev)}
+                  className={`flex items-center gap-2 text-sm font-medium px-4 py-2 border rounded-lg transition-all shadow-sm active:scale-95 ${
+                    showTaxSettings
+                      ? 'bg-blue-50 border-blue-400 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:text-blue-700 hover:border-blue-400'
+                  }`}
+                >
+                  <Percent className="w-4 h-4" />
+                  IGV
+                </button>
+                <button
+                  onClick={() => setShowCurrencySettings(prev => !prev)}
+                  className={`flex items-center gap-2 text-sm font-medium px-4 py-2 border rounded-lg transition-all shadow-sm active:scale-95 ${
+                    showCurrencySettings
+                      ? 'bg-blue-50 border-blue-400 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-600 hover:text-blue-700 hover:border-blue-400'
+                  }`}
+                >
+                  <Coins className="w-4 h-4" />
+                  {currencySettings.reportingCurrency}
+                </button>
+                {baselineData ? (
+                  <div className="flex items-center text-sm font-medium border border-blue-400 bg-blue-50 text-blue-700 rounded-lg shadow-sm">
+                    <span className="flex items-center gap-2 pl-4 pr-2 py-2 max-w-[200px]" title={`Comparando con ${baselineFileName}`}>
+                      <GitCompare className="w-4 h-4 flex-shrink-0" />
+                      <span className="truncate">vs {baselineFileName}</span>
+                    </span>
+                    <button onClick={() => setBaselineData(null)} title="Quitar comparación" className="pr-3 py-2 hover:text-red-600">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => baselineInputRef.current?.click()}
+                    disabled={loading}
+                    className="flex items-center gap-2 text-sm font-medium px-4 py-2 border border-gray-300 bg-white text-gray-600 hover:text-blue-700 hover:border-blue-400 rounded-lg transition-all shadow-sm active:scale-95 disabled:opacity-50"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Comparar
+                  </button>
+                )}
+                <input
+                  ref={baselineInputRef}
+                  type="file"
+                  accept={ACCEPTED_EXTENSIONS}
+                  multiple
+                  className="hidden"
+                  onChange={handleBaselineUpload}
+                />
                 <button
-                  onClick={handleDownload}
-                  className="flex items-center gap-2 text-sm font-semibold px-4 py-2 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg shadow-sm transition-all active:scale-95"
+                  onClick={() => setShowMappingWizard(true)}
+                  className="flex items-center gap-2 text-sm font-medium px-4 py-2 border border-gray-300 bg-white text-gray-600 hover:text-blue-700 hover:border-blue-400 rounded-lg transition-all shadow-sm active:scale-95"
                 >
-                  <FileSpreadsheet className="w-4 h-4" />
-                  Descargar Excel
+                  <Columns className="w-4 h-4" />
+                  Columnas
                 </button>
                 <button 
-                  onClick={() => setRawData(null)}
+                  onClick={handleReset}
                   className="text-sm text-gray-600 hover:text-blue-700 font-medium px-4 py-2 border border-gray-300 hover:border-blue-400 bg-white rounded-lg transition-all shadow-sm hover:shadow active:scale-95"
                 >
                   Cargar otro archivo
@@ -162,22 +873,124 @@ function App() {
               </div>
             </div>
 
+            {/* Data Quality Panel */}
+            {showValidation && (
+              <ValidationPanel
+                issues={validationIssues}
+                excludedTypes={excludedIssueTypes}
+                onExcludedTypesChange={setExcludedIssueTypes}
+                totalRows={rawData.length}
+                keptRows={validData?.length || 0}
+                multiSource={(sourceSheets?.length || 0) > 1}
+              />
+            )}
+
+            {/* Filter Panel */}
+            {showFilters && (
+              <FilterPanel
+                data={rawData}
+                rules={filterRules}
+                onRulesChange={setFilterRules}
+                onReset={() => setFilterRules(createDefaultFilterRules(rawData))}
+              />
+            )}
+
+            {/* Tax Settings Panel */}
+            {showTaxSettings && (
+              <TaxSettingsPanel
+                data={rawData}
+                settings={taxSettings}
+                onSettingsChange={handleTaxSettingsChange}
+              />
+            )}
+
+            {/* Currency Settings Panel */}
+            {showCurrencySettings && (
+              <CurrencySettingsPanel
+                data={rawData}
+                settings={currencySettings}
+                onSettingsChange={handleCurrencySettingsChange}
+              />
+            )}
+
+            {/* Custom Pivot Layout */}
+            {isCustomPivot && (
+              <PivotBuilder
+                config={pivotConfig}
+                onConfigChange={handlePivotConfigChange}
+                savedPresets={savedPivotPresets}
+                onSavedPresetsChange={handleSavedPresetsChange}
+              />
+            )}
+
+            {activeTab === ReportType.PRODUCT_REVENUE && !splitsLines && (
+              <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-500" />
+                El archivo no trae Total de línea ni Precio unitario: cada documento se asigna completo a su primer artículo. Asigna esas columnas en el mapeo para repartirlo por producto.
+              </div>
+            )}
+
+            {/* Amounts in a currency without an exchange rate are left out of the totals */}
+            {unconverted && (
+              <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-500" />
+                {`${describeUnconverted(unconverted)}. Agrega su tipo de cambio en la configuración de moneda para incluirlos.`}
+              </div>
+            )}
+
+            {/* Documents that changed against the baseline snapshot */}
+            {report?.documentChanges && (
+              <ComparisonPanel changes={report.documentChanges} baselineName={baselineFileName} currency={report.currency} />
+            )}
+
+            {/* Values picked on the charts apply to every tab */}
+            {chartFocus.length > 0 && (
+              <FilterChips
+                chips={chartFocus.map(focus => ({ column: focus.field, label: `${CHART_FOCUS_LABELS[focus.field]}: ${focus.label}` }))}
+                onRemove={(field) => setFilterRules(prev => ({ ...prev, chartFocus: (prev.chartFocus || []).filter(focus => focus.field !== field) }))}
+                onClear={() => setFilterRules(prev => ({ ...prev, chartFocus: [] }))}
+              />
+            )}
+
             {/* Content Area */}
             <div className="h-[70vh] min-h-[500px] bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden ring-1 ring-black/5">
               {activeTab === ReportType.CLIENT_SEARCH ? (
                  <ClientSearch 
-                   data={rawData} 
+                   matchedData={clientSearchRows} 
                    searchTerm={clientSearchTerm}
                    onSearchChange={setClientSearchTerm}
+                   columnFilters={clientColumnFilters}
+                   onColumnFiltersChange={setClientColumnFilters}
                  />
+              ) : activeTab === ReportType.DASHBOARD ? (
+                dashboardReports ? (
+                  <ChartsDashboard reports={dashboardReports} focus={chartFocus} onSelect={handleChartSelect} />
+                ) : (
+                  <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Calculando gráficos...
+                  </div>
+                )
+              ) : !report ? (
+                <div className="h-full flex items-center justify-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Calculando reporte...
+                </div>
               ) : (
-                report && (
                   <PivotTable 
                     report={report} 
                     type={activeTab} 
-                    title={tabs.find(t => t.id === activeTab)?.label || 'Reporte'}
+                    title={
+                      (activeTab === ReportType.NET_AMOUNT || activeTab === ReportType.PRODUCT_REVENUE) && report.amountBasis
+                        ? `${getAmountBasisLabel(report.amountBasis, report.taxRate ?? 0)} en ${report.currency}`
+                        : tabs.find(t => t.id === activeTab)?.label || 'Reporte'
+                    }
+                    onDrillDown={setDrillDown}
+                    onOpenRow={activeTab === ReportType.CLIENT_SUMMARY ? setDetailClient : undefined}
+                    columnFilters={pivotColumnFilters}
+                    onColumnFiltersChange={setPivotColumnFilters}
+                    onColumnWidthsChange={setPivotColumnWidths}
                   />
-                )
               )}
             </div>
 
@@ -185,20 +998,59 @@ function App() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs text-gray-600 mt-8">
               <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
                 <strong className="block text-blue-700 uppercase tracking-wider mb-1 text-[10px]">Filtro de Estado</strong>
-                Exclusión automática de documentos marcados como "Cerrado".
+                {filterRules.excludedStatuses.length > 0
+                  ? `Estados excluidos: ${filterRules.excludedStatuses.join(', ')}.`
+                  : 'No se excluye ningún estado.'}
               </div>
               <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
                 <strong className="block text-blue-700 uppercase tracking-wider mb-1 text-[10px]">Segmentación</strong>
-                Grupos permitidos: Mayoristas B, C, D, E.
+                {filterRules.allowedGroups.length > 0
+                  ? `Grupos permitidos: ${filterRules.allowedGroups.join(', ')}.`
+                  : 'Ningún grupo seleccionado.'}
               </div>
               <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
                 <strong className="block text-blue-700 uppercase tracking-wider mb-1 text-[10px]">Fórmulas</strong>
-                Monto Neto: Suma única del Total de Documento por ID (sin duplicados de líneas), luego dividido entre 1.18.
+                Monto Neto: Total de Documento contado una vez por ID, repartido entre sus líneas según el total de línea (o precio × cantidad) cuando el archivo lo trae, luego dividido entre 1 + {formatTaxRate(shownTaxRate)} de IGV.
+                {!splitsLines && ' Sin importes de línea, cada documento se asigna completo a su primera línea.'}
+                {(taxSettings.exemptGroups.length > 0 || taxSettings.exemptClients.length > 0) &&
+                  ` Documentos exonerados: ${[...taxSettings.exemptGroups, ...taxSettings.exemptClients].join(', ')}.`}
+                {` Montos en ${currencySettings.reportingCurrency}; los documentos en otra moneda se convierten al tipo de cambio de su fecha de contabilización.`}
               </div>
             </div>
           </div>
         )}
       </main>
+
+      {pendingSheets && (
+        <SheetSelector
+          sheets={pendingSheets}
+          onConfirm={handleSheetsConfirm}
+          onCancel={() => setPendingSheets(null)}
+        />
+      )}
+
+      {drillDown && (
+        <DrillDownPanel
+          label={drillDown.label}
+          rows={drillDownRows}
+          onExport={handleDrillDownDownload}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+
+      {clientDetail && (
+        <ClientDetailPanel detail={clientDetail} onClose={() => setDetailClient(null)} />
+      )}
+
+      {showMappingWizard && sourceSheets && (
+        <ColumnMappingWizard
+          sheets={sourceSheets}
+          initialMapping={columnMapping}
+          fileName={sourceFileName}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleMappingCancel}
+        />
+      )}
     </div>
   );
 }
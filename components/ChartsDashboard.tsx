@@ -0,0 +1,264 @@
+import React, { useRef } from 'react';
+import { ChartFocus, DashboardReports } from '../types';
+import { ChartBar, TOP_PRODUCTS, getColorScale, getColumnRanking, getShares, getStackedBars, getTopRows, isFocused } from '../utils/chartData';
+import { downloadPng, downloadSvg } from '../utils/chartExport';
+import { formatCurrency } from '../utils/currency';
+import { getAmountBasisLabel } from '../utils/taxSettings';
+import { Download } from 'lucide-react';
+
+interface ChartsDashboardProps {
+  reports: DashboardReports;
+  focus: ChartFocus[];
+  onSelect: (selection: ChartFocus[]) => void;
+}
+
+const formatNumber = (val: number) => new Intl.NumberFormat('es-PE').format(val);
+
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 190;
+const VALUE_WIDTH = 110;
+const ROW_HEIGHT = 22;
+const FONT = 'Arial, Helvetica, sans-serif';
+
+// SVG text does not wrap; long names are cut so they stay inside the label column
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+interface ChartCardProps {
+  title: string;
+  filename: string;
+  children: (svgRef: React.RefObject<SVGSVGElement>) => React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, filename, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const exportButton = 'flex items-center gap-1 text-[11px] font-medium text-gray-500 hover:text-blue-700';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white">
+      <div className="flex items-center justify-between mb-3">
+        <strong className="block text-blue-700 uppercase tracking-wider text-[10px]">{title}</strong>
+        <div className="flex gap-3">
+          <button onClick={() => svgRef.current && downloadPng(svgRef.current, `${filename}.png`)} className={exportButton}>
+            <Download className="w-3 h-3" />
+            PNG
+          </button>
+          <button onClick={() => svgRef.current && downloadSvg(svgRef.current, `${filename}.svg`)} className={exportButton}>
+            <Download className="w-3 h-3" />
+            SVG
+          </button>
+        </div>
+      </div>
+      {children(svgRef)}
+    </div>
+  );
+};
+
+interface BarChartProps {
+  svgRef: React.RefObject<SVGSVGElement>;
+  bars: ChartBar[];
+  format: (val: number) => string;
+  legend?: string[]; // Segment keys, for stacked charts
+  isActive: (bar: ChartBar, segmentKey: string) => boolean;
+  onSelect: (bar: ChartBar, segmentKey: string) => void;
+}
+
+// Horizontal bars, optionally stacked; every bar (or segment) is clickable
+const BarChart: React.FC<BarChartProps> = ({ svgRef, bars, format, legend, isActive, onSelect }) => {
+  const max = Math.max(...bars.map(bar => bar.total), 0) || 1;
+  const barArea = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const colorOf = getColorScale(legend || []);
+  const legendRows = legend ? Math.ceil(legend.length / 3) : 0;
+  const height = bars.length * ROW_HEIGHT + (legendRows ? legendRows * 18 + 16 : 0) + 8;
+  const anyActive = bars.some(bar => bar.segments.some(s => isActive(bar, s.key)));
+
+  if (bars.length === 0) {
+    return <p className="text-xs text-gray-500 py-8 text-center">Sin datos con los filtros actuales.</p>;
+  }
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${CHART_WIDTH} ${height}`} width="100%" fontFamily={FONT}>
+      <rect x={0} y={0} width={CHART_WIDTH} height={height} fill="#ffffff" />
+      {bars.map((bar, idx) => {
+        const y = idx * ROW_HEIGHT + 4;
+        let x = LABEL_WIDTH;
+        return (
+          <g key={bar.key}>
+            <text x={LABEL_WIDTH - 8} y={y + 13} fontSize={11} fill="#334155" textAnchor="end">
+              <title>{bar.label}</title>
+              {truncate(bar.label, 30)}
+            </text>
+            {bar.segments.map(segment => {
+              const width = Math.max((segment.value / max) * barArea, 0);
+              const segmentX = x;
+              x += width;
+              const active = isActive(bar, segment.key);
+              return (
+                <rect
+                  key={segment.key}
+                  x={segmentX}
+                  y={y}
+                  width={width}
+                  height={ROW_HEIGHT - 6}
+                  fill={segment.color}
+                  opacity={anyActive && !active ? 0.35 : 1}
+                  stroke={active ? '#0f172a' : 'none'}
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => onSelect(bar, segment.key)}
+                >
+                  <title>{`${bar.label}${legend ? ` · ${segment.key}` : ''}: ${format(segment.value)}`}</title>
+                </rect>
+              );
+            })}
+            <text x={x + 6} y={y + 13} fontSize={10} fill="#64748b">
+              {format(bar.total)}
+            </text>
+          </g>
+        );
+      })}
+      {legend?.map((key, idx) => {
+        const x = LABEL_WIDTH + (idx % 3) * 145;
+        const y = bars.length * ROW_HEIGHT + 20 + Math.floor(idx / 3) * 18;
+        return (
+          <g key={key}>
+            <rect x={x} y={y - 9} width={10} height={10} fill={colorOf(key)} />
+            <text x={x + 14} y={y} fontSize={10} fill="#334155">
+              <title>{key}</title>
+              {truncate(key, 22)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface DonutChartProps {
+  svgRef: React.RefObject<SVGSVGElement>;
+  slices: ReturnType<typeof getShares>;
+  isActive: (key: string) => boolean;
+  onSelect: (key: string) => void;
+}
+
+// Share of the whole per slice, with the legend on the right
+const DonutChart: React.FC<DonutChartProps> = ({ svgRef, slices, isActive, onSelect }) => {
+  const radius = 90;
+  const inner = 52;
+  const cx = 120;
+  const cy = 120;
+  const height = Math.max(240, slices.length * 20 + 20);
+  const anyActive = slices.some(slice => isActive(slice.key));
+
+  if (slices.length === 0) {
+    return <p className="text-xs text-gray-500 py-8 text-center">Sin datos con los filtros actuales.</p>;
+  }
+
+  const point = (angle: number, r: number) => [cx + r * Math.sin(angle), cy - r * Math.cos(angle)];
+  let start = 0;
+
+  return (
+    <svg ref={svgRef} viewBox={`0 0 ${CHART_WIDTH} ${height}`} width="100%" fontFamily={FONT}>
+      <rect x={0} y={0} width={CHART_WIDTH} height={height} fill="#ffffff" />
+      {slices.map(slice => {
+        // A single slice is a full ring, which an arc cannot draw
+        const end = start + Math.min(slice.share, 0.9999) * 2 * Math.PI;
+        const large = end - start > Math.PI ? 1 : 0;
+        const [x1, y1] = point(start, radius);
+        const [x2, y2] = point(end, radius);
+        const [x3, y3] = point(end, inner);
+        const [x4, y4] = point(start, inner);
+        start = end;
+        const active = isActive(slice.key);
+        return (
+          <path
+            key={slice.key}
+            d={`M ${x1} ${y1} A ${radius} ${radius} 0 ${large} 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 ${large} 0 ${x4} ${y4} Z`}
+            fill={slice.color}
+            opacity={anyActive && !active ? 0.35 : 1}
+            stroke={active ? '#0f172a' : '#ffffff'}
+            style={{ cursor: 'pointer' }}
+            onClick={() => onSelect(slice.key)}
+          >
+            <title>{`${slice.label}: ${formatNumber(slice.value)} (${(slice.share * 100).toFixed(1)}%)`}</title>
+          </path>
+        );
+      })}
+      {slices.map((slice, idx) => (
+        <g key={slice.key} style={{ cursor: 'pointer' }} onClick={() => onSelect(slice.key)}>
+          <rect x={260} y={idx * 20 + 11} width={10} height={10} fill={slice.color} />
+          <text x={276} y={idx * 20 + 20} fontSize={11} fill="#334155">
+            {truncate(slice.label, 40)}
+          </text>
+          <text x={CHART_WIDTH - 10} y={idx * 20 + 20} fontSize={11} fill="#64748b" textAnchor="end">
+            {`${formatNumber(slice.value)} · ${(slice.share * 100).toFixed(1)}%`}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// Charts over the same reports as the tabs; clicking a bar or slice limits every report to it
+export const ChartsDashboard: React.FC<ChartsDashboardProps> = ({ reports, focus, onSelect }) => {
+  const { amounts, products, groups } = reports;
+  const formatAmount = (val: number) => formatCurrency(val, amounts.currency);
+  const reps = amounts.columns;
+  // Same basis label as the pivot and the Excel title
+  const amountLabel = `${getAmountBasisLabel(amounts.amountBasis, amounts.taxRate)} en ${amounts.currency}`;
+
+  return (
+    <div className="h-full overflow-auto custom-scrollbar p-4 bg-gray-50">
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <ChartCard title={`${amountLabel} por distrito y vendedor`} filename="Monto_por_distrito">
+          {svgRef => (
+            <BarChart
+              svgRef={svgRef}
+              bars={getStackedBars(amounts)}
+              format={formatAmount}
+              legend={reps}
+              isActive={(bar, rep) => isFocused(focus, 'district', bar.key) && isFocused(focus, 'salesRep', rep)}
+              onSelect={(bar, rep) => onSelect([
+                { field: 'district', value: bar.key, label: bar.label },
+                { field: 'salesRep', value: rep, label: rep },
+              ])}
+            />
+          )}
+        </ChartCard>
+
+        <ChartCard title={`Ranking de vendedores · ${amountLabel}`} filename="Ranking_vendedores">
+          {svgRef => (
+            <BarChart
+              svgRef={svgRef}
+              bars={getColumnRanking(amounts)}
+              format={formatAmount}
+              isActive={bar => isFocused(focus, 'salesRep', bar.key)}
+              onSelect={bar => onSelect([{ field: 'salesRep', value: bar.key, label: bar.label }])}
+            />
+          )}
+        </ChartCard>
+
+        <ChartCard title={`Top ${TOP_PRODUCTS} productos por cantidad`} filename="Top_productos">
+          {svgRef => (
+            <BarChart
+              svgRef={svgRef}
+              bars={getTopRows(products, TOP_PRODUCTS)}
+              format={formatNumber}
+              isActive={bar => isFocused(focus, 'itemId', bar.key)}
+              onSelect={bar => onSelect([{ field: 'itemId', value: bar.key, label: bar.label }])}
+            />
+          )}
+        </ChartCard>
+
+        <ChartCard title="Pedidos pendientes por grupo" filename="Pedidos_por_grupo">
+          {svgRef => (
+            <DonutChart
+              svgRef={svgRef}
+              slices={getShares(groups)}
+              isActive={key => isFocused(focus, 'groupName', key)}
+              onSelect={key => onSelect([{ field: 'groupName', value: key, label: key }])}
+            />
+          )}
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ClientDetail } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { formatCurrency } from '../utils/currency';
+import { MapPin, Package, User, X } from 'lucide-react';
+
+interface ClientDetailPanelProps {
+  detail: ClientDetail;
+  onClose: () => void;
+}
+
+const formatNumber = (val: number) => new Intl.NumberFormat('es-PE').format(val);
+
+// Everything the dispatch and collections teams need about one waiting client
+export const ClientDetailPanel: React.FC<ClientDetailPanelProps> = ({ detail, onClose }) => {
+  const sectionTitle = 'block text-blue-700 uppercase tracking-wider mb-2 text-[10px] font-bold';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/20 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white shadow-2xl border-l border-gray-200 w-full max-w-xl h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-start gap-3">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg">
+            <User className="w-5 h-5" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg font-semibold text-slate-900 truncate" title={detail.clientName}>{detail.clientName}</h2>
+            <p className="text-xs text-gray-500">
+              {detail.documents.length} {detail.documents.length === 1 ? 'pedido pendiente' : 'pedidos pendientes'} por{' '}
+              <strong className="font-mono text-slate-900">{formatCurrency(detail.amount, detail.currency)}</strong>
+            </p>
+          </div>
+          <button onClick={onClose} title="Cerrar" className="text-gray-400 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar px-6 py-4 space-y-6">
+          <section>
+            <strong className={sectionTitle}>Pedidos pendientes (más antiguos primero)</strong>
+            <table className="w-full text-xs border border-gray-200 rounded-md">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-3 py-1.5 text-left font-semibold">Documento</th>
+                  <th className="px-3 py-1.5 text-left font-semibold">Fecha</th>
+                  <th className="px-3 py-1.5 text-left font-semibold">Vendedor</th>
+                  <th className="px-3 py-1.5 text-right font-semibold">Líneas</th>
+                  <th className="px-3 py-1.5 text-right font-semibold">Monto</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {detail.documents.map(doc => (
+                  <tr key={doc.docId} title={doc.status}>
+                    <td className="px-3 py-1.5 font-mono text-slate-900">{doc.docId || '(sin documento)'}</td>
+                    <td className="px-3 py-1.5 text-gray-600">{formatDate(doc.date) || '-'}</td>
+                    <td className="px-3 py-1.5 text-gray-800 truncate max-w-[140px]" title={doc.salesRep}>{doc.salesRep}</td>
+                    <td className="px-3 py-1.5 text-right font-mono tabular-nums">{doc.lineCount}</td>
+                    <td className="px-3 py-1.5 text-right font-mono tabular-nums">{formatCurrency(doc.amount, detail.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <strong className={sectionTitle}>Artículos más pedidos</strong>
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+              {detail.topItems.map(item => (
+                <div key={item.itemId} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                  <Package className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+                  <span className="font-mono text-gray-600 w-24 flex-shrink-0 truncate">{item.itemId}</span>
+                  <span className="flex-1 truncate text-gray-800" title={item.itemDesc}>{item.itemDesc}</span>
+                  <span className="font-mono tabular-nums text-slate-900">{formatNumber(item.quantity)}</span>
+                  <span className="text-[11px] text-gray-500 w-16 text-right">
+                    {item.documents} {item.documents === 1 ? 'pedido' : 'pedidos'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <strong className={sectionTitle}>Destinos</strong>
+            <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+              {detail.destinations.map(({ destination, documents }) => (
+                <div key={destination} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                  <MapPin className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+                  <span className="flex-1 truncate text-gray-800" title={destination}>{destination}</span>
+                  <span className="text-[11px] text-gray-500">
+                    {documents} {documents === 1 ? 'pedido' : 'pedidos'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,46 @@
 import React, { useState, useMemo, useRef, useCallback } from 'react';
-import { ProcessedRow } from '../types';
+import { ColumnFilter, ColumnFilters, ProcessedRow } from '../types';
+import { describeColumnFilter, filterProcessedRows } from '../utils/columnFilters';
+import { useVirtualRows } from '../utils/useVirtualRows';
+import { ColumnFilterMenu } from './ColumnFilterMenu';
+import { FilterChips } from './FilterChips';
+import { SearchTerm, SearchableField, findMatchRanges, getFieldTerms, parseSearchQuery } from '../utils/searchQuery';
 import { Search, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 
 interface ClientSearchProps {
-  data: ProcessedRow[];
+  matchedData: ProcessedRow[]; // Lines matching searchTerm, searched in the worker
   searchTerm: string;
   onSearchChange: (term: string) => void;
+  columnFilters: ColumnFilters;
+  onColumnFiltersChange: (filters: ColumnFilters) => void;
 }
 
+// Value with the fragments matched by the search marked
+const Highlight = ({ text, terms }: { text: string; terms: SearchTerm[] }) => {
+  const ranges = findMatchRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-200 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Row height in px, fixed so that only the rows in view need to be rendered
+const ROW_HEIGHT = 33;
+
 type SortDirection = 'asc' | 'desc';
 interface SortConfig {
   key: keyof ProcessedRow;
   direction: SortDirection;
 }
 
-export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, onSearchChange }) => {
+export const ClientSearch: React.FC<ClientSearchProps> = ({ matchedData, searchTerm, onSearchChange, columnFilters, onColumnFiltersChange }) => {
   const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
 
   // Column Resizing State
@@ -33,24 +59,41 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
     column: null,
   });
 
-  // Filter Data
-  const filteredData = useMemo(() => {
-    // Show all data if search is empty, otherwise filter
-    if (!searchTerm.trim()) return data;
-    
-    const lowerTerm = searchTerm.toLowerCase();
-    return data.filter(row => 
-      row.clientName.toLowerCase().includes(lowerTerm)
-    );
-  }, [data, searchTerm]);
+  // Filter Data - an empty query matches everything; the query itself is only parsed for highlighting
+  const query = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const filteredData = useMemo(() => filterProcessedRows(matchedData, columnFilters), [matchedData, columnFilters]);
+
+  const setColumnFilter = (column: string, filter: ColumnFilter | null) => {
+    const next = { ...columnFilters };
+    if (filter) next[column] = filter;
+    else delete next[column];
+    onColumnFiltersChange(next);
+  };
+
+  // Values offered by each text column's checklist: those among the search results
+  const columnOptions = useMemo(() => {
+    const optionsFor = (key: keyof ProcessedRow) =>
+      Array.from(new Set(matchedData.map(row => String(row[key] ?? ''))))
+        .sort((a, b) => a.localeCompare(b))
+        .map(value => ({ value, label: value }));
+    return {
+      clientName: optionsFor('clientName'),
+      itemId: optionsFor('itemId'),
+      itemDesc: optionsFor('itemDesc'),
+      district: optionsFor('district'),
+      destination: optionsFor('destination'),
+    } as { [key: string]: { value: string; label: string }[] };
+  }, [matchedData]);
+
+  const termsFor = (field: SearchableField) => getFieldTerms(query, field);
 
   // Sort Data
   const sortedData = useMemo(() => {
     if (!sortConfig) return filteredData;
 
     return [...filteredData].sort((a, b) => {
-      const valA = a[sortConfig.key];
-      const valB = b[sortConfig.key];
+      const valA: any = a[sortConfig.key];
+      const valB: any = b[sortConfig.key];
 
       if (valA < valB) return sortConfig.direction === 'asc' ? -1 : 1;
       if (valA > valB) return sortConfig.direction === 'asc' ? 1 : -1;
@@ -58,6 +101,10 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
     });
   }, [filteredData, sortConfig]);
 
+  // Windowed rendering: large exports have tens of thousands of lines
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { start, end, paddingTop, paddingBottom } = useVirtualRows(scrollRef, sortedData.length, ROW_HEIGHT);
+
   const handleSort = (key: keyof ProcessedRow) => {
     let direction: SortDirection = 'asc';
     if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
@@ -102,15 +149,19 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
 
 
   // Columns Definition - Client Name is first, followed by existing columns
-  const columns: { key: keyof ProcessedRow; label: string; widthKey: string }[] = [
+  const columns: { key: keyof ProcessedRow; label: string; widthKey: string; numeric?: boolean }[] = [
     { key: 'clientName', label: 'Nombre de cliente/proveedor', widthKey: 'clientName' },
     { key: 'itemId', label: 'Número de artículo', widthKey: 'itemId' },
     { key: 'itemDesc', label: 'Descripción artículo/serv.', widthKey: 'itemDesc' },
-    { key: 'quantity', label: 'Cantidad', widthKey: 'quantity' },
+    { key: 'quantity', label: 'Cantidad', widthKey: 'quantity', numeric: true },
     { key: 'district', label: 'Condado', widthKey: 'district' },
     { key: 'destination', label: 'Destino', widthKey: 'destination' },
   ];
 
+  const filterChips = columns
+    .filter(col => columnFilters[col.key])
+    .map(col => ({ column: col.key, label: `${col.label}: ${describeColumnFilter(columnFilters[col.key])}` }));
+
   const SortIcon = ({ columnKey }: { columnKey: string }) => {
     const active = sortConfig?.key === columnKey;
     return (
@@ -143,11 +194,20 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
             autoComplete="off"
           />
         </div>
+        <p className="mt-1.5 text-[11px] text-gray-500">
+          Sin tildes ni mayúsculas, tolera errores de tipeo. Filtre por campo con <code>item:</code>, <code>destino:</code>, <code>condado:</code>, <code>vendedor:</code> o <code>doc:</code>; combine términos con <code>OR</code>.
+        </p>
       </div>
 
+      <FilterChips
+        chips={filterChips}
+        onRemove={(column) => setColumnFilter(column, null)}
+        onClear={() => onColumnFiltersChange({})}
+      />
+
       {/* Results Table */}
       <div className="flex-1 overflow-hidden border border-black rounded-sm flex flex-col">
-        <div className="overflow-auto custom-scrollbar flex-1">
+        <div ref={scrollRef} className="overflow-auto custom-scrollbar flex-1">
             <table className="w-full text-sm text-left border-collapse table-fixed">
               <thead className="sticky top-0 z-30 shadow-sm bg-[#CFE2F3] text-black">
                 <tr>
@@ -160,7 +220,15 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
                      >
                        <div className="flex items-center justify-between overflow-hidden">
                           <span className="truncate">{col.label}</span>
-                          <SortIcon columnKey={col.key} />
+                          <span className="inline-flex flex-shrink-0">
+                            <ColumnFilterMenu
+                              title={col.label}
+                              options={col.numeric ? undefined : columnOptions[col.key]}
+                              filter={columnFilters[col.key]}
+                              onChange={(filter) => setColumnFilter(col.key, filter)}
+                            />
+                            <SortIcon columnKey={col.key} />
+                          </span>
                        </div>
                        {/* Resizer Handle */}
                        <div 
@@ -172,26 +240,29 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
                 </tr>
               </thead>
               <tbody className="bg-white">
+                {paddingTop > 0 && (
+                  <tr><td colSpan={columns.length} style={{ height: paddingTop, padding: 0, border: 0 }} /></tr>
+                )}
                 {sortedData.length > 0 ? (
-                  sortedData.map((row, idx) => (
-                    <tr key={`${row.docId}-${idx}`} className="hover:bg-blue-50 transition-colors">
+                  sortedData.slice(start, end).map((row, idx) => (
+                    <tr key={`${row.docId}-${start + idx}`} className="hover:bg-blue-50 transition-colors" style={{ height: ROW_HEIGHT }}>
                       <td className="p-2 border border-black text-gray-900 text-xs truncate">
-                        {row.clientName}
+                        <Highlight text={row.clientName} terms={termsFor('clientName')} />
                       </td>
                       <td className="p-2 border border-black font-mono text-xs text-gray-900 truncate">
-                        {row.itemId}
+                        <Highlight text={row.itemId} terms={termsFor('itemId')} />
                       </td>
                       <td className="p-2 border border-black text-gray-900 text-xs truncate">
-                        {row.itemDesc}
+                        <Highlight text={row.itemDesc} terms={termsFor('itemDesc')} />
                       </td>
-                      <td className="p-2 border border-black text-right text-gray-900 font-mono text-xs">
+                      <td className="p-2 border border-black text-right text-gray-900 font-mono text-xs truncate">
                         {row.quantity}
                       </td>
                        <td className="p-2 border border-black text-gray-900 text-xs truncate">
-                        {row.district}
+                        <Highlight text={row.district} terms={termsFor('district')} />
                       </td>
                        <td className="p-2 border border-black text-gray-900 text-xs truncate">
-                        {row.destination || '-'}
+                        {row.destination ? <Highlight text={row.destination} terms={termsFor('destination')} /> : '-'}
                       </td>
                     </tr>
                   ))
@@ -202,6 +273,9 @@ export const ClientSearch: React.FC<ClientSearchProps> = ({ data, searchTerm, on
                     </td>
                   </tr>
                 )}
+                {paddingBottom > 0 && (
+                  <tr><td colSpan={columns.length} style={{ height: paddingBottom, padding: 0, border: 0 }} /></tr>
+                )}
               </tbody>
             </table>
         </div>
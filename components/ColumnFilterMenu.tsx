@@ -0,0 +1,122 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ColumnFilter } from '../types';
+import { Filter } from 'lucide-react';
+
+interface ColumnFilterMenuProps {
+  title: string;
+  options?: { value: string; label: string }[]; // Text columns: values to pick from. Without options the column is numeric.
+  filter?: ColumnFilter;
+  onChange: (filter: ColumnFilter | null) => void;
+}
+
+export const ColumnFilterMenu: React.FC<ColumnFilterMenuProps> = ({ title, options, filter, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const allValues = options ? options.map(o => o.value) : [];
+  const selected = filter?.kind === 'values' ? filter.values : allValues;
+
+  // Checking every value is the same as having no filter
+  const setSelected = (values: string[]) => {
+    onChange(values.length === allValues.length ? null : { kind: 'values', values });
+  };
+
+  const toggleValue = (value: string) => {
+    setSelected(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  const range = filter?.kind === 'range' ? filter : { min: null, max: null };
+  const setRange = (bound: 'min' | 'max', text: string) => {
+    const next = { ...range, [bound]: text === '' ? null : Number(text) };
+    onChange(next.min === null && next.max === null ? null : { kind: 'range', min: next.min, max: next.max });
+  };
+
+  const visibleOptions = options?.filter(o => o.label.toLowerCase().includes(search.toLowerCase())) || [];
+  const inputStyles = "block w-full px-2 py-1 border border-gray-300 rounded-md text-xs font-normal normal-case bg-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+  return (
+    <div ref={containerRef} className="inline-flex" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        title={`Filtrar ${title}`}
+        className={`inline-flex ml-1 ${filter ? 'text-blue-700' : 'text-gray-600 opacity-30 group-hover:opacity-100'}`}
+      >
+        <Filter className="w-3 h-3" fill={filter ? 'currentColor' : 'none'} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-1 z-40 w-60 bg-white border border-gray-300 rounded-md shadow-lg p-3 text-left cursor-default normal-case tracking-normal">
+          <div className="text-[10px] font-bold text-blue-700 uppercase tracking-wider mb-2 truncate">{title}</div>
+          {options ? (
+            <>
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Buscar valor..."
+                className={inputStyles}
+              />
+              <div className="flex gap-2 my-2 text-[11px] font-medium">
+                <button onClick={() => setSelected(allValues)} className="text-blue-600 hover:underline">Todos</button>
+                <button onClick={() => setSelected([])} className="text-blue-600 hover:underline">Ninguno</button>
+              </div>
+              <div className="max-h-56 overflow-auto custom-scrollbar border border-gray-200 rounded-md divide-y divide-gray-100">
+                {visibleOptions.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 px-2 py-1 text-xs font-normal text-gray-800 cursor-pointer hover:bg-blue-50">
+                    <input
+                      type="checkbox"
+                      className="accent-blue-600"
+                      checked={selected.includes(option.value)}
+                      onChange={() => toggleValue(option.value)}
+                    />
+                    <span className="truncate" title={option.label}>{option.label || '(vacío)'}</span>
+                  </label>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="flex gap-2">
+              <label className="flex-1 text-[11px] font-normal text-gray-600">
+                Mín.
+                <input
+                  type="number"
+                  value={range.min ?? ''}
+                  onChange={(e) => setRange('min', e.target.value)}
+                  className={inputStyles}
+                />
+              </label>
+              <label className="flex-1 text-[11px] font-normal text-gray-600">
+                Máx.
+                <input
+                  type="number"
+                  value={range.max ?? ''}
+                  onChange={(e) => setRange('max', e.target.value)}
+                  className={inputStyles}
+                />
+              </label>
+            </div>
+          )}
+          {filter && (
+            <button
+              onClick={() => onChange(null)}
+              className="mt-2 text-[11px] font-medium text-gray-600 hover:text-red-600"
+            >
+              Quitar filtro
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, MappableField, RawSheet } from '../types';
+import { FIELD_DEFINITIONS } from '../utils/columnMapping';
+import { getCombinedHeaders } from '../utils/dataProcessor';
+import { describeTextFormat } from '../utils/fileImport';
+import { AlertCircle, CheckCircle2, Columns } from 'lucide-react';
+
+interface ColumnMappingWizardProps {
+  sheets: RawSheet[];
+  initialMapping: ColumnMapping;
+  fileName?: string;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ sheets, initialMapping, fileName, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const headers = useMemo(() => getCombinedHeaders(sheets), [sheets]);
+  const rowCount = sheets.reduce((sum, s) => sum + s.rows.length, 0);
+  // Detected encoding and separators of text inputs, so a wrong guess is visible before mapping
+  const textFormats = Array.from(new Set(sheets.flatMap(s => (s.textFormat ? [describeTextFormat(s.textFormat)] : []))));
+
+  // Reverse lookup: which field each header feeds
+  const fieldForHeader = (header: string): MappableField | '' => {
+    const def = FIELD_DEFINITIONS.find(d => mapping[d.field] === header);
+    return def ? def.field : '';
+  };
+
+  // A field can only come from one header, so assigning it clears the previous one
+  const assign = (header: string, field: MappableField | '') => {
+    setMapping(prev => {
+      const next: ColumnMapping = { ...prev };
+      FIELD_DEFINITIONS.forEach(d => {
+        if (next[d.field] === header) delete next[d.field];
+      });
+      if (field) next[field] = header;
+      return next;
+    });
+  };
+
+  // First non-empty value, to help recognise the column content
+  const sampleFor = (header: string) => {
+    for (const sheet of sheets) {
+      const row = sheet.rows.find(r => r[header] !== undefined && String(r[header]).trim() !== '');
+      if (row) return String(row[header]);
+    }
+    return '';
+  };
+
+  const unmappedFields = FIELD_DEFINITIONS.filter(d => !mapping[d.field]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl border border-gray-200 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg">
+            <Columns className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Mapeo de columnas</h2>
+            <p className="text-xs text-gray-500">
+              {fileName ? `${fileName} • ` : ''}{headers.length} columnas, {rowCount} filas
+            </p>
+            {textFormats.length > 0 && (
+              <p className="text-xs text-gray-500">Texto delimitado: {textFormats.join(' / ')}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar px-6 py-4">
+          <table className="w-full text-sm text-left border-collapse">
+            <thead className="sticky top-0 bg-[#CFE2F3] text-black">
+              <tr>
+                <th className="px-2 py-2 text-xs font-bold uppercase tracking-tight border border-black">Columna del archivo</th>
+                <th className="px-2 py-2 text-xs font-bold uppercase tracking-tight border border-black">Ejemplo</th>
+                <th className="px-2 py-2 text-xs font-bold uppercase tracking-tight border border-black w-64">Campo asignado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {headers.map(header => {
+                const field = fieldForHeader(header);
+                return (
+                  <tr key={header} className={field ? 'bg-white' : 'bg-gray-50'}>
+                    <td className="p-2 border border-black text-xs text-gray-900 font-medium">{header}</td>
+                    <td className="p-2 border border-black text-xs text-gray-500 font-mono truncate max-w-[200px]">{sampleFor(header)}</td>
+                    <td className="p-1 border border-black">
+                      <select
+                        value={field}
+                        onChange={(e) => assign(header, e.target.value as MappableField | '')}
+                        className="w-full text-xs border border-gray-300 rounded px-2 py-1 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      >
+                        <option value="">(ignorar)</option>
+                        {FIELD_DEFINITIONS.map(d => (
+                          <option key={d.field} value={d.field}>{d.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 space-y-3">
+          {unmappedFields.length > 0 ? (
+            <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 text-amber-600" />
+              <span>
+                Campos sin columna (se usará el valor por defecto): {unmappedFields.map(d => d.label).join(', ')}.
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-lg p-3">
+              <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+              <span>Todos los campos tienen una columna asignada.</span>
+            </div>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onCancel}
+              className="text-sm text-gray-600 hover:text-blue-700 font-medium px-4 py-2 border border-gray-300 hover:border-blue-400 bg-white rounded-lg transition-all shadow-sm"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(mapping)}
+              className="text-sm font-semibold px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg shadow-sm transition-all active:scale-95"
+            >
+              Confirmar y procesar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { DocumentChange, DocumentChanges } from '../types';
+import { formatCurrency } from '../utils/currency';
+
+interface ComparisonPanelProps {
+  changes: DocumentChanges;
+  baselineName: string;
+  currency?: string;
+}
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ changes, baselineName, currency }) => {
+  const formatAmount = (val: number) => formatCurrency(val, currency);
+  // Documents without an exchange rate have no amount in the reporting currency
+  const formatDocAmount = (doc: DocumentChange, val: number) =>
+    doc.unconverted ? <span className="text-amber-700">Sin tipo de cambio</span> : formatAmount(val);
+
+  const renderList = (title: string, docs: DocumentChange[], accent: string, renderAmount: (doc: DocumentChange) => React.ReactNode) => (
+    <div className="flex-1 min-w-[240px]">
+      <div className="flex items-center justify-between mb-2">
+        <strong className={`uppercase tracking-wider text-[10px] ${accent}`}>{title}</strong>
+        <span className="text-[11px] font-mono text-gray-500">{docs.length}</span>
+      </div>
+      <div className="max-h-48 overflow-auto custom-scrollbar border border-gray-200 rounded-md bg-white divide-y divide-gray-100">
+        {docs.length === 0 && <div className="px-3 py-1.5 text-xs text-gray-400">Ninguno</div>}
+        {docs.map(doc => (
+          <div key={doc.docId} className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-800">
+            <span className="font-mono w-20 flex-shrink-0">{doc.docId}</span>
+            <span className="flex-1 truncate" title={`${doc.clientName} · ${doc.salesRep}`}>{doc.clientName}</span>
+            <span className="font-mono tabular-nums text-right">{renderAmount(doc)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="mb-3">
+        <h3 className="text-sm font-semibold text-slate-800">Cambios de documentos</h3>
+        <p className="text-xs text-gray-500">Comparado con {baselineName}, con los filtros actuales.</p>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        {renderList('Nuevos', changes.appeared, 'text-emerald-700', doc => formatDocAmount(doc, doc.after))}
+        {renderList('Ya no están (posiblemente facturados)', changes.disappeared, 'text-red-700', doc => formatDocAmount(doc, doc.before))}
+        {renderList('Total modificado', changes.changed, 'text-blue-700', doc => (
+          <>
+            <span className="text-gray-400">{formatAmount(doc.before)} → </span>
+            <span className={doc.after > doc.before ? 'text-emerald-700' : 'text-red-700'}>{formatAmount(doc.after)}</span>
+          </>
+        ))}
+      </div>
+    </div>
+  );
+};
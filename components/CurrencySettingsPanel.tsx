@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { CurrencySettings, ExchangeRate, ProcessedRow } from '../types';
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY_SETTINGS, LOCAL_CURRENCY, getMissingRateCurrencies } from '../utils/currency';
+import { toIsoDate } from '../utils/dateUtils';
+import { AlertTriangle, Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+interface CurrencySettingsPanelProps {
+  data: ProcessedRow[];
+  settings: CurrencySettings;
+  onSettingsChange: (settings: CurrencySettings) => void;
+}
+
+const inputClass =
+  'block w-full px-2 py-1 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+export const CurrencySettingsPanel: React.FC<CurrencySettingsPanelProps> = ({ data, settings, onSettingsChange }) => {
+  // Currencies of the file first, then the usual ones
+  const currencies = useMemo(
+    () => Array.from(new Set([...data.map(r => r.currency || LOCAL_CURRENCY), ...COMMON_CURRENCIES])).sort(),
+    [data]
+  );
+  const foreignCurrencies = currencies.filter(c => c !== LOCAL_CURRENCY);
+  const missing = useMemo(() => getMissingRateCurrencies(data, settings), [data, settings]);
+
+  const updateRate = (index: number, change: Partial<ExchangeRate>) => {
+    onSettingsChange({
+      ...settings,
+      rates: settings.rates.map((rate, idx) => (idx === index ? { ...rate, ...change } : rate)),
+    });
+  };
+
+  const addRate = () => {
+    const currency = missing.find(c => c !== LOCAL_CURRENCY) || foreignCurrencies[0] || 'USD';
+    onSettingsChange({
+      ...settings,
+      rates: [...settings.rates, { currency, date: toIsoDate(new Date()), rate: 1 }],
+    });
+  };
+
+  const removeRate = (index: number) => {
+    onSettingsChange({ ...settings, rates: settings.rates.filter((_, idx) => idx !== index) });
+  };
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800">Monedas y tipo de cambio</h3>
+        <button
+          onClick={() => onSettingsChange(DEFAULT_CURRENCY_SETTINGS)}
+          className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-blue-700"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Restablecer predeterminado
+        </button>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="mb-3 flex items-start gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-500" />
+          <span>
+            Sin tipo de cambio para {missing.join(', ')}: esos documentos quedan fuera de los montos hasta que agregues su tipo de cambio.
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-6">
+        <div className="w-40">
+          <strong className="block text-blue-700 uppercase tracking-wider mb-2 text-[10px]">Moneda del reporte</strong>
+          <select
+            value={settings.reportingCurrency}
+            onChange={(e) => onSettingsChange({ ...settings, reportingCurrency: e.target.value })}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 min-w-[320px]">
+          <strong className="block text-blue-700 uppercase tracking-wider mb-2 text-[10px]">
+            Tipos de cambio (soles por unidad, vigentes desde la fecha)
+          </strong>
+          {settings.rates.length > 0 && (
+            <div className="border border-gray-200 rounded-md bg-white divide-y divide-gray-100 mb-2">
+              {settings.rates.map((rate, idx) => (
+                <div key={idx} className="flex items-center gap-2 px-3 py-1.5">
+                  <select
+                    value={rate.currency}
+                    onChange={(e) => updateRate(idx, { currency: e.target.value })}
+                    className={`${inputClass} w-24`}
+                  >
+                    {foreignCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <input
+                    type="date"
+                    value={rate.date}
+                    onChange={(e) => updateRate(idx, { date: e.target.value })}
+                    className={`${inputClass} w-36`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.001}
+                    value={rate.rate}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (!Number.isNaN(value) && value >= 0) updateRate(idx, { rate: value });
+                    }}
+                    className={`${inputClass} w-28`}
+                  />
+                  <button onClick={() => removeRate(idx)} title="Quitar" className="p-1 text-gray-400 hover:text-red-600">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={addRate}
+            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3" />
+            Agregar tipo de cambio
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { ProcessedRow } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { formatCurrency } from '../utils/currency';
+import { FileSpreadsheet, ListTree, X } from 'lucide-react';
+
+interface DrillDownPanelProps {
+  label: string;
+  rows: ProcessedRow[];
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const DrillDownPanel: React.FC<DrillDownPanelProps> = ({ label, rows, onExport, onClose }) => {
+  // One card per document, in the order the lines were loaded
+  const documents = useMemo(() => {
+    const byDoc = new Map<string, ProcessedRow[]>();
+    rows.forEach(row => {
+      if (!byDoc.has(row.docId)) byDoc.set(row.docId, []);
+      byDoc.get(row.docId)!.push(row);
+    });
+    return Array.from(byDoc.entries()).map(([docId, lines]) => ({ docId, lines }));
+  }, [rows]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/20 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-white shadow-2xl border-l border-gray-200 w-full max-w-xl h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex items-start gap-3">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg">
+            <ListTree className="w-5 h-5" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg font-semibold text-slate-900">Detalle de pedidos</h2>
+            <p className="text-xs text-gray-500 truncate" title={label}>{label}</p>
+            <p className="text-xs text-gray-500">
+              {documents.length} {documents.length === 1 ? 'documento' : 'documentos'}, {rows.length} {rows.length === 1 ? 'línea' : 'líneas'}
+            </p>
+          </div>
+          <button onClick={onClose} title="Cerrar" className="text-gray-400 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar px-6 py-4 space-y-3">
+          {documents.length === 0 && (
+            <p className="text-sm text-gray-500">No hay líneas para esta celda con los filtros actuales.</p>
+          )}
+          {documents.map(({ docId, lines }) => {
+            const first = lines[0];
+            return (
+              <div key={docId} className="border border-gray-200 rounded-md">
+                <div className="flex items-start justify-between gap-3 px-3 py-2 bg-gray-50 border-b border-gray-200">
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-slate-900 font-mono">{docId || '(sin documento)'}</div>
+                    <div className="text-xs text-gray-700 truncate" title={first.clientName}>{first.clientName}</div>
+                    <div className="text-[11px] text-gray-500">
+                      {first.salesRep} · {first.district}{first.postingDate && ` · ${formatDate(first.postingDate)}`}
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider">Total documento</div>
+                    <div className="text-xs font-bold font-mono tabular-nums">{formatCurrency(first.totalAmount, first.currency)}</div>
+                  </div>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody className="divide-y divide-gray-100">
+                    {lines.map((line, idx) => (
+                      <tr key={idx}>
+                        <td className="px-3 py-1.5 font-mono text-gray-600 w-28">{line.itemId}</td>
+                        <td className="px-3 py-1.5 text-gray-800 truncate max-w-0" title={line.itemDesc}>{line.itemDesc}</td>
+                        <td className="px-3 py-1.5 text-right font-mono tabular-nums w-20">
+                          {new Intl.NumberFormat('es-PE').format(line.quantity)}
+                        </td>
+                        {typeof line.lineAmount === 'number' && (
+                          <td className="px-3 py-1.5 text-right font-mono tabular-nums w-28 text-gray-600">
+                            {formatCurrency(line.lineAmount, line.currency)}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end">
+          <button
+            onClick={onExport}
+            disabled={rows.length === 0}
+            className="flex items-center gap-2 text-sm font-semibold px-4 py-2 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Descargar detalle
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,32 +1,40 @@
 import React, { useCallback } from 'react';
 import { FileSpreadsheet, AlertCircle, ShieldCheck, Upload } from 'lucide-react';
+import { LoadProgress } from '../types';
+import { ACCEPTED_EXTENSIONS } from '../utils/fileImport';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void;
+  onFilesUpload: (files: File[]) => void;
   isLoading: boolean;
   error?: string | null;
+  progress?: LoadProgress | null;
+  onCancel?: () => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading, error }) => {
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUpload, isLoading, error, progress, onCancel }) => {
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       if (isLoading) return;
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-        onFileUpload(e.dataTransfer.files[0]);
+      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+        onFilesUpload(Array.from(e.dataTransfer.files));
       }
     },
-    [onFileUpload, isLoading]
+    [onFilesUpload, isLoading]
   );
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (isLoading) return;
-      if (e.target.files && e.target.files[0]) {
-        onFileUpload(e.target.files[0]);
+      if (e.target.files && e.target.files.length > 0) {
+        onFilesUpload(Array.from(e.target.files));
       }
+      // Allow selecting the same files again after "Cargar otro archivo"
+      e.target.value = '';
     },
-    [onFileUpload, isLoading]
+    [onFilesUpload, isLoading]
   );
 
   return (
@@ -45,7 +53,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading,
           type="file"
           id="fileInput"
           className="hidden"
-          accept=".xlsx, .xls"
+          accept={ACCEPTED_EXTENSIONS}
+          multiple
           onChange={handleChange}
           disabled={isLoading}
         />
@@ -64,12 +73,42 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading,
           
           <div className="space-y-2">
             <h3 className={`text-lg font-semibold tracking-tight transition-colors ${isLoading ? 'text-gray-500' : 'text-slate-800 group-hover:text-blue-700'}`}>
-              {isLoading ? 'Procesando reporte...' : 'Seleccionar Archivo Excel'}
+              {isLoading ? 'Procesando reporte...' : 'Seleccionar Archivos'}
             </h3>
             <p className="text-sm text-gray-500 font-normal">
-              Arrastra tu archivo aquí o haz clic para explorar
+              Arrastra uno o varios archivos Excel, ODS o CSV aquí o haz clic para explorar
             </p>
           </div>
+
+          {isLoading && progress && (
+            <div className="w-full max-w-sm space-y-2 text-xs text-gray-600">
+              {progress.totalBytes > 0 && (
+                <>
+                  <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${Math.min(100, (progress.bytesRead / progress.totalBytes) * 100)}%` }}
+                    />
+                  </div>
+                  <p>{formatMegabytes(progress.bytesRead)} MB de {formatMegabytes(progress.totalBytes)} MB leídos</p>
+                </>
+              )}
+              <p>{new Intl.NumberFormat('es-PE').format(progress.rowsProcessed)} filas procesadas</p>
+            </div>
+          )}
+
+          {isLoading && onCancel && (
+            <button
+              onClick={(e) => {
+                // The drop zone itself opens the file picker on click
+                e.stopPropagation();
+                onCancel();
+              }}
+              className="px-4 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,32 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+interface FilterChipsProps {
+  chips: { column: string; label: string }[];
+  onRemove: (column: string) => void;
+  onClear: () => void;
+}
+
+// Active column filters, each removable
+export const FilterChips: React.FC<FilterChipsProps> = ({ chips, onRemove, onClear }) => {
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+      {chips.map(chip => (
+        <span
+          key={chip.column}
+          className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 bg-blue-50 border border-blue-200 text-blue-800 rounded-full"
+        >
+          <span className="truncate max-w-[260px]" title={chip.label}>{chip.label}</span>
+          <button onClick={() => onRemove(chip.column)} title="Quitar filtro" className="p-0.5 rounded-full hover:bg-blue-100">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {chips.length > 1 && (
+        <button onClick={onClear} className="font-medium text-blue-600 hover:underline">Quitar todos</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { DateField, FilterRules, ProcessedRow } from '../types';
+import { getDistinctValues } from '../utils/dataProcessor';
+import { RotateCcw } from 'lucide-react';
+
+interface FilterPanelProps {
+  data: ProcessedRow[];
+  rules: FilterRules;
+  onRulesChange: (rules: FilterRules) => void;
+  onReset: () => void;
+}
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({ data, rules, onRulesChange, onReset }) => {
+  const statuses = useMemo(() => getDistinctValues(data, 'status'), [data]);
+  const groups = useMemo(() => getDistinctValues(data, 'groupName'), [data]);
+
+  // Row counts per value, shown next to each checkbox
+  const counts = useMemo(() => {
+    const status: { [key: string]: number } = {};
+    const group: { [key: string]: number } = {};
+    data.forEach(row => {
+      status[row.status] = (status[row.status] || 0) + 1;
+      group[row.groupName] = (group[row.groupName] || 0) + 1;
+    });
+    return { status, group };
+  }, [data]);
+
+  // Statuses are a blacklist, groups a whitelist: in both cases "checked" means the rows are included
+  const isStatusIncluded = (status: string) => !rules.excludedStatuses.includes(status);
+  const isGroupIncluded = (group: string) => rules.allowedGroups.includes(group);
+
+  const toggleStatus = (status: string) => {
+    const excludedStatuses = isStatusIncluded(status)
+      ? [...rules.excludedStatuses, status]
+      : rules.excludedStatuses.filter(s => s !== status);
+    onRulesChange({ ...rules, excludedStatuses });
+  };
+
+  const toggleGroup = (group: string) => {
+    const allowedGroups = isGroupIncluded(group)
+      ? rules.allowedGroups.filter(g => g !== group)
+      : [...rules.allowedGroups, group];
+    onRulesChange({ ...rules, allowedGroups });
+  };
+
+  const setAllStatuses = (included: boolean) => {
+    onRulesChange({ ...rules, excludedStatuses: included ? [] : [...statuses] });
+  };
+
+  const setAllGroups = (included: boolean) => {
+    onRulesChange({ ...rules, allowedGroups: included ? [...groups] : [] });
+  };
+
+  const dateInputStyles = "block w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+  const renderList = (
+    title: string,
+    values: string[],
+    valueCounts: { [key: string]: number },
+    isIncluded: (value: string) => boolean,
+    onToggle: (value: string) => void,
+    onSetAll: (included: boolean) => void
+  ) => (
+    <div className="flex-1 min-w-[220px]">
+      <div className="flex items-center justify-between mb-2">
+        <strong className="text-blue-700 uppercase tracking-wider text-[10px]">{title}</strong>
+        <div className="flex gap-2 text-[11px] font-medium">
+          <button onClick={() => onSetAll(true)} className="text-blue-600 hover:underline">Todos</button>
+          <button onClick={() => onSetAll(false)} className="text-blue-600 hover:underline">Ninguno</button>
+        </div>
+      </div>
+      <div className="max-h-48 overflow-auto custom-scrollbar border border-gray-200 rounded-md bg-white divide-y divide-gray-100">
+        {values.map(value => (
+          <label key={value} className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-800 cursor-pointer hover:bg-blue-50">
+            <input
+              type="checkbox"
+              className="accent-blue-600"
+              checked={isIncluded(value)}
+              onChange={() => onToggle(value)}
+            />
+            <span className="flex-1 truncate" title={value}>{value || '(vacío)'}</span>
+            <span className="font-mono text-gray-400">{valueCounts[value]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800">Filtros del reporte</h3>
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-blue-700"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Restablecer predeterminado
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        {renderList('Estado', statuses, counts.status, isStatusIncluded, toggleStatus, setAllStatuses)}
+        {renderList('Nombre de Grupo', groups, counts.group, isGroupIncluded, toggleGroup, setAllGroups)}
+        <div className="w-56 space-y-2">
+          <div className="flex items-center justify-between">
+            <strong className="text-blue-700 uppercase tracking-wider text-[10px]">Rango de fechas</strong>
+            {(rules.dateFrom || rules.dateTo) && (
+              <button
+                onClick={() => onRulesChange({ ...rules, dateFrom: '', dateTo: '' })}
+                className="text-[11px] font-medium text-blue-600 hover:underline"
+              >
+                Limpiar
+              </button>
+            )}
+          </div>
+          <select
+            value={rules.dateField}
+            onChange={(e) => onRulesChange({ ...rules, dateField: e.target.value as DateField })}
+            className={dateInputStyles}
+          >
+            <option value="postingDate">Fecha de contabilización</option>
+            <option value="deliveryDate">Fecha de entrega</option>
+          </select>
+          <label className="block text-[11px] text-gray-600">
+            Desde
+            <input
+              type="date"
+              value={rules.dateFrom}
+              onChange={(e) => onRulesChange({ ...rules, dateFrom: e.target.value })}
+              className={dateInputStyles}
+            />
+          </label>
+          <label className="block text-[11px] text-gray-600">
+            Hasta
+            <input
+              type="date"
+              value={rules.dateTo}
+              onChange={(e) => onRulesChange({ ...rules, dateTo: e.target.value })}
+              className={dateInputStyles}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { PivotConfig, PivotDimension, PivotMeasure, PivotPreset } from '../types';
+import { DIMENSIONS, MEASURES, PIVOT_PRESETS } from '../utils/pivotEngine';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+
+interface PivotBuilderProps {
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  savedPresets: PivotPreset[];
+  onSavedPresetsChange: (presets: PivotPreset[]) => void;
+}
+
+const sameConfig = (a: PivotConfig, b: PivotConfig) =>
+  a.rowDimension === b.rowDimension && a.columnDimension === b.columnDimension && a.measure === b.measure
+  && (a.nestedDimensions || []).join('|') === (b.nestedDimensions || []).join('|');
+
+// Row levels below the main one
+const MAX_NESTED_LEVELS = 3;
+
+export const PivotBuilder: React.FC<PivotBuilderProps> = ({ config, onConfigChange, savedPresets, onSavedPresetsChange }) => {
+  const [presetName, setPresetName] = useState('');
+
+  const builtInPresets = Object.values(PIVOT_PRESETS);
+  const dimensionKeys = Object.keys(DIMENSIONS) as PivotDimension[];
+  const measureKeys = Object.keys(MEASURES) as PivotMeasure[];
+
+  const activeSaved = savedPresets.find(p => sameConfig(p.config, config));
+  const nested = config.nestedDimensions || [];
+
+  const setNested = (nestedDimensions: PivotDimension[]) => {
+    onConfigChange({ ...config, nestedDimensions });
+  };
+
+  // New levels default to the first dimension not already used for rows
+  const addLevel = () => {
+    const used = [config.rowDimension, ...nested];
+    const next = dimensionKeys.find(d => !used.includes(d) && d !== config.columnDimension) || dimensionKeys[0];
+    setNested([...nested, next]);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name replaces that preset
+    onSavedPresetsChange([...savedPresets.filter(p => p.name !== name), { name, config }]);
+    setPresetName('');
+  };
+
+  const selectStyles = "block w-full px-2 py-1.5 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+  const labelStyles = "block text-blue-700 uppercase tracking-wider mb-1 text-[10px] font-bold";
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-48">
+          <span className={labelStyles}>Filas</span>
+          <select
+            value={config.rowDimension}
+            onChange={(e) => onConfigChange({ ...config, rowDimension: e.target.value as PivotDimension })}
+            className={selectStyles}
+          >
+            {dimensionKeys.map(d => <option key={d} value={d}>{DIMENSIONS[d].label}</option>)}
+          </select>
+        </div>
+        {nested.map((dimension, idx) => (
+          <div key={idx} className="w-44">
+            <span className={labelStyles}>Subnivel {idx + 1}</span>
+            <div className="flex gap-1">
+              <select
+                value={dimension}
+                onChange={(e) => setNested(nested.map((d, i) => (i === idx ? e.target.value as PivotDimension : d)))}
+                className={selectStyles}
+              >
+                {dimensionKeys.map(d => <option key={d} value={d}>{DIMENSIONS[d].label}</option>)}
+              </select>
+              <button
+                onClick={() => setNested(nested.filter((_, i) => i !== idx))}
+                title="Quitar subnivel"
+                className="px-1 text-gray-400 hover:text-red-600"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {nested.length < MAX_NESTED_LEVELS && (
+          <button
+            onClick={addLevel}
+            className="flex items-center gap-1 text-xs font-medium px-2 py-1.5 border border-dashed border-gray-300 text-gray-600 hover:text-blue-700 hover:border-blue-400 bg-white rounded-md"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Subnivel
+          </button>
+        )}
+        <div className="w-48">
+          <span className={labelStyles}>Columnas</span>
+          <select
+            value={config.columnDimension}
+            onChange={(e) => onConfigChange({ ...config, columnDimension: e.target.value as PivotDimension })}
+            className={selectStyles}
+          >
+            {dimensionKeys.map(d => <option key={d} value={d}>{DIMENSIONS[d].label}</option>)}
+          </select>
+        </div>
+        <div className="w-56">
+          <span className={labelStyles}>Medida</span>
+          <select
+            value={config.measure}
+            onChange={(e) => onConfigChange({ ...config, measure: e.target.value as PivotMeasure })}
+            className={selectStyles}
+          >
+            {measureKeys.map(m => <option key={m} value={m}>{MEASURES[m].label}</option>)}
+          </select>
+        </div>
+
+        <div className="w-56">
+          <span className={labelStyles}>Plantillas</span>
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = [...builtInPresets, ...savedPresets].find(p => p.name === e.target.value);
+              if (preset) onConfigChange(preset.config);
+            }}
+            className={selectStyles}
+          >
+            <option value="" disabled>Cargar plantilla...</option>
+            <optgroup label="Reportes estándar">
+              {builtInPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+            {savedPresets.length > 0 && (
+              <optgroup label="Guardadas">
+                {savedPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Nombre de la plantilla"
+            className="w-44 px-2 py-1.5 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!presetName.trim()}
+            className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-3.5 h-3.5" />
+            Guardar
+          </button>
+          {activeSaved && (
+            <button
+              onClick={() => onSavedPresetsChange(savedPresets.filter(p => p !== activeSaved))}
+              title={`Eliminar "${activeSaved.name}"`}
+              className="flex items-center gap-1 text-xs font-medium px-2 py-1.5 border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 bg-white rounded-md"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { PivotData, ReportResult, ReportType } from '../types';
-import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { ColumnFilter, ColumnFilters, DrillDownTarget, PivotData, PivotMeasure, ReportResult, ReportType } from '../types';
+import { ROW_LABEL_COLUMN, applyPivotFilters, describeColumnFilter, getActivePivotFilters } from '../utils/columnFilters';
+import { useVirtualRows } from '../utils/useVirtualRows';
+import { formatCurrency } from '../utils/currency';
+import { ColumnFilterMenu } from './ColumnFilterMenu';
+import { FilterChips } from './FilterChips';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronRight, ChevronDown } from 'lucide-react';
 
 interface PivotTableProps {
   report: ReportResult;
   type: ReportType;
   title: string;
+  onDrillDown?: (target: DrillDownTarget) => void; // Called when a value or total is clicked
+  onOpenRow?: (rowKey: string) => void; // Makes top-level row labels clickable (e.g. to open a client's detail)
+  columnFilters: ColumnFilters;
+  onColumnFiltersChange: (filters: ColumnFilters) => void;
+  onColumnWidthsChange?: (widths: { [key: string]: number }) => void; // Lets the Excel export reuse the widths on screen
 }
 
 type SortDirection = 'asc' | 'desc';
@@ -16,13 +26,34 @@ interface SortConfig {
   direction: SortDirection;
 }
 
-export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) => {
-  const isCurrency = type === ReportType.NET_AMOUNT;
+// Row heights in px, fixed so that only the rows in view need to be rendered
+const ROW_HEIGHT = 33;
+const ROW_HEIGHT_WITH_CHANGE = 48;
+
+// A row as displayed, once nested levels are flattened
+interface VisibleRow {
+  row: PivotData;
+  depth: number;
+  path: string;
+  keys: string[]; // Row keys from the top level down to this row
+  labels: string[];
+}
+
+export const PivotTable: React.FC<PivotTableProps> = ({ report: fullReport, type, title, onDrillDown, onOpenRow, columnFilters, onColumnFiltersChange, onColumnWidthsChange }) => {
+  // Column filters hide top-level rows; everything below works on what is left
+  const report = React.useMemo(() => applyPivotFilters(fullReport, columnFilters), [fullReport, columnFilters]);
+  const isFiltered = report !== fullReport;
+
+  const isCurrency = report.measure === PivotMeasure.NET_AMOUNT;
   const isProductList = type === ReportType.PRODUCT_LIST;
   
   // Sorting State
   const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
 
+  // Expanded groups of nested reports, by path (e.g. "LIMA›CLIENTE X")
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const hasHierarchy = report.data.some(row => row.children);
+
   // Column Resizing State
   const [columnWidths, setColumnWidths] = useState<{ [key: string]: number }>({});
   const resizingRef = useRef<{ isResizing: boolean; startX: number; startWidth: number; column: string | null }>({
@@ -60,21 +91,56 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
     });
   }, [report, isProductList]);
 
+  useEffect(() => {
+    onColumnWidthsChange?.(columnWidths);
+  }, [columnWidths, onColumnWidthsChange]);
+
 
-  const formatValue = (val: number) => {
+  // Columns holding amounts in a report that otherwise shows counts (e.g. ageing)
+  const currencyColumns = new Set(report.currencyColumns || []);
+
+  const formatValue = (val: number, currency: boolean = isCurrency) => {
     if (val === 0 || val === undefined) return '-'; 
-    if (isCurrency) {
-      return new Intl.NumberFormat('es-PE', { style: 'currency', currency: 'PEN' }).format(val);
+    if (currency) {
+      return formatCurrency(val, report.currency);
     }
     return new Intl.NumberFormat('es-PE').format(val);
   };
 
   // 1. Calculate Column Totals (Pre-sort)
   const colTotals: { [key: string]: number } = {};
+  const baselineColTotals: { [key: string]: number } = {};
   report.columns.forEach(col => {
     colTotals[col] = report.data.reduce((sum, row) => sum + (row.values[col] || 0), 0);
+    baselineColTotals[col] = report.data.reduce((sum, row) => sum + (row.baseline?.values[col] || 0), 0);
   });
 
+  // Comparison reports show the change against the baseline under each value: green up, red down
+  const isComparison = report.baselineGrandTotal !== undefined;
+  const getDelta = (current: number | undefined, base: number | undefined) => {
+    const delta = (current || 0) - (base || 0);
+    return Math.abs(delta) < 0.005 ? 0 : delta;
+  };
+
+  const changeBg = (current: number | undefined, base: number | undefined) => {
+    if (!isComparison) return '';
+    const delta = getDelta(current, base);
+    return delta > 0 ? 'bg-emerald-50' : delta < 0 ? 'bg-red-50' : '';
+  };
+
+  const renderChange = (current: number | undefined, base: number | undefined, currency: boolean = isCurrency) => {
+    if (!isComparison) return null;
+    const delta = getDelta(current, base);
+    if (delta === 0) return null;
+    const sign = delta > 0 ? '+' : '';
+    const pct = base ? ` (${sign}${new Intl.NumberFormat('es-PE', { style: 'percent', maximumFractionDigits: 1 }).format(delta / base)})` : '';
+    return (
+      <div className={`text-[10px] font-normal ${delta > 0 ? 'text-emerald-700' : 'text-red-700'}`}>
+        {sign}{formatValue(delta, currency)}{pct}
+      </div>
+    );
+  };
+
   // 2. Sorting Logic
   const handleSort = (key: string) => {
     let direction: SortDirection = 'asc';
@@ -87,7 +153,10 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
   const sortedData = React.useMemo(() => {
     if (!sortConfig) return report.data;
 
-    return [...report.data].sort((a, b) => {
+    // Every level of a nested report is sorted within its group
+    const sortLevel = (rows: PivotData[]): PivotData[] => [...rows].map(row =>
+      row.children ? { ...row, children: sortLevel(row.children) } : row
+    ).sort((a, b) => {
       let valA: any;
       let valB: any;
 
@@ -109,8 +178,97 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
       if (valA > valB) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
+
+    return sortLevel(report.data);
   }, [report.data, sortConfig]);
 
+  const visibleRows = React.useMemo(() => {
+    const result: VisibleRow[] = [];
+    const walk = (rows: PivotData[], depth: number, parentPath: string, parentKeys: string[], parentLabels: string[]) => {
+      rows.forEach(row => {
+        const path = parentPath ? `${parentPath}›${row.rowKey}` : row.rowKey;
+        const keys = [...parentKeys, row.rowKey];
+        const labels = [...parentLabels, row.rowLabel || row.rowKey];
+        result.push({ row, depth, path, keys, labels });
+        if (row.children && expanded.has(path)) walk(row.children, depth + 1, path, keys, labels);
+      });
+    };
+    walk(sortedData, 0, '', [], []);
+    return result;
+  }, [sortedData, expanded]);
+
+  // Only the rows in view are rendered; every row has the same height (values are truncated to one line,
+  // plus the change line on comparison reports)
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const rowHeight = isComparison ? ROW_HEIGHT_WITH_CHANGE : ROW_HEIGHT;
+  const { start, end, paddingTop, paddingBottom } = useVirtualRows(scrollRef, visibleRows.length, rowHeight);
+  const columnCount = report.columns.length + (isProductList ? 3 : 2);
+
+  const toggleExpanded = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const expandAll = () => {
+    const paths = new Set<string>();
+    const walk = (rows: PivotData[], parentPath: string) => {
+      rows.forEach(row => {
+        if (!row.children) return;
+        const path = parentPath ? `${parentPath}›${row.rowKey}` : row.rowKey;
+        paths.add(path);
+        walk(row.children, path);
+      });
+    };
+    walk(report.data, '');
+    setExpanded(paths);
+  };
+
+  const setColumnFilter = (column: string, filter: ColumnFilter | null) => {
+    const next = { ...columnFilters };
+    if (filter) next[column] = filter;
+    else delete next[column];
+    onColumnFiltersChange(next);
+  };
+
+  // Row label checklist offers every top-level row of the unfiltered report
+  const rowLabelOf = (row: PivotData) => (row.rowLabel && row.rowLabel !== row.rowKey ? `${row.rowKey} - ${row.rowLabel}` : row.rowKey);
+  const rowLabelOptions = React.useMemo(
+    () => fullReport.data.map(row => ({ value: row.rowKey, label: rowLabelOf(row) })).sort((a, b) => a.label.localeCompare(b.label)),
+    [fullReport.data]
+  );
+  const rowLabelTitle = isProductList ? 'Artículo' : report.rowTitle || 'DISTRITO';
+
+  const filterChips = getActivePivotFilters(fullReport, columnFilters).map(column => {
+    if (column === ROW_LABEL_COLUMN) {
+      const labels = new Map(rowLabelOptions.map(o => [o.value, o.label]));
+      return { column, label: `${rowLabelTitle}: ${describeColumnFilter(columnFilters[column], v => labels.get(v) || v)}` };
+    }
+    return { column, label: `${column}: ${describeColumnFilter(columnFilters[column])}` };
+  });
+
+  const renderRowLabelFilter = () => (
+    <ColumnFilterMenu
+      title={rowLabelTitle}
+      options={rowLabelOptions}
+      filter={columnFilters[ROW_LABEL_COLUMN]}
+      onChange={(filter) => setColumnFilter(ROW_LABEL_COLUMN, filter)}
+    />
+  );
+
+  // Drill-down: empty cells have nothing to show
+  const drillCellStyles = onDrillDown ? 'cursor-pointer hover:bg-blue-100 hover:underline' : '';
+  const drillDown = (value: number | undefined, rowPath: string[] | null, rowLabels: string[] | null, column: string | null) => {
+    if (!onDrillDown || !value) return;
+    const label = [rowLabels ? rowLabels.join(' › ') : isFiltered ? 'Totales filtrados' : 'Totales', column ?? 'Total general'].join(' · ');
+    // Totals of filtered rows only cover the rows the filters leave
+    const rowKeys = !rowPath && isFiltered ? report.data.map(row => row.rowKey) : undefined;
+    onDrillDown({ rowPath, column, label, ...(rowKeys && { rowKeys }) });
+  };
+
   // Resize Handlers
   const startResize = (e: React.MouseEvent, column: string) => {
     e.stopPropagation();
@@ -174,7 +332,19 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
 
   return (
     <div className="bg-white p-4 overflow-hidden flex flex-col h-full">
-      <div className="overflow-auto flex-1 custom-scrollbar pb-4">
+      {/* Expand / collapse controls for nested reports */}
+      {hasHierarchy && (
+        <div className="flex gap-3 mb-2 text-xs font-medium">
+          <button onClick={expandAll} className="text-blue-600 hover:underline">Expandir todo</button>
+          <button onClick={() => setExpanded(new Set())} className="text-blue-600 hover:underline">Contraer todo</button>
+        </div>
+      )}
+      <FilterChips
+        chips={filterChips}
+        onRemove={(column) => setColumnFilter(column, null)}
+        onClear={() => onColumnFiltersChange({})}
+      />
+      <div ref={scrollRef} className="overflow-auto flex-1 custom-scrollbar pb-4">
         {/* Changed to table-fixed to respect manual widths properly */}
         <table className="text-sm text-left border-collapse border border-black table-fixed w-max">
           <thead className="sticky top-0 z-30 shadow-sm">
@@ -205,7 +375,7 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                     className={`${headerCellStyles} text-left bg-[#B4C6E7] cursor-default`} 
                     colSpan={report.columns.length}
                   >
-                    CANAL / MAYORISTAS
+                    {report.columnTitle || 'CANAL / MAYORISTAS'}
                   </th>
                    {/* Total Placeholder */}
                    <th className={`${headerCellStyles} bg-[#B4C6E7] cursor-default`}></th>
@@ -235,7 +405,10 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                   >
                     <div className="flex items-center justify-between overflow-hidden">
                       <span className="truncate">Descripción artículo/serv.</span>
-                      <SortIcon columnKey="rowLabel" />
+                      <span className="inline-flex flex-shrink-0">
+                        {renderRowLabelFilter()}
+                        <SortIcon columnKey="rowLabel" />
+                      </span>
                     </div>
                     <Resizer columnKey="rowLabel" />
                   </th>
@@ -259,8 +432,11 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                     onClick={() => handleSort('rowLabel')}
                 >
                   <div className="flex items-center justify-between overflow-hidden">
-                    <span className="truncate">DISTRITO</span>
-                    <SortIcon columnKey="rowLabel" />
+                    <span className="truncate">{report.rowTitle || 'DISTRITO'}</span>
+                    <span className="inline-flex flex-shrink-0">
+                      {renderRowLabelFilter()}
+                      <SortIcon columnKey="rowLabel" />
+                    </span>
                   </div>
                   <Resizer columnKey="rowLabel" />
                 </th>
@@ -276,7 +452,14 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                 >
                   <div className="flex items-center justify-end overflow-hidden" title={col}>
                     <span className="truncate">{col}</span>
-                    <SortIcon columnKey={col} />
+                    <span className="inline-flex flex-shrink-0">
+                      <ColumnFilterMenu
+                        title={col}
+                        filter={columnFilters[col]}
+                        onChange={(filter) => setColumnFilter(col, filter)}
+                      />
+                      <SortIcon columnKey={col} />
+                    </span>
                   </div>
                   <Resizer columnKey={col} />
                 </th>
@@ -300,8 +483,15 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
           </thead>
           
           <tbody className="bg-white">
-            {sortedData.map((row, idx) => (
-              <tr key={idx} className="hover:bg-blue-50 transition-colors">
+            {paddingTop > 0 && (
+              <tr><td colSpan={columnCount} style={{ height: paddingTop, padding: 0, border: 0 }} /></tr>
+            )}
+            {visibleRows.slice(start, end).map(({ row, depth, path, keys, labels }) => (
+              <tr
+                key={path}
+                className={`hover:bg-blue-50 transition-colors ${row.children ? 'bg-[#EEF4FB] font-bold' : ''}`}
+                style={{ height: rowHeight }}
+              >
                 {/* Row Keys */}
                 {isProductList ? (
                   <>
@@ -312,31 +502,64 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                       {row.rowLabel}
                     </td>
                     {/* Total moved here for Product List */}
-                    <td className={`p-2 ${borderStyle} font-bold text-right text-black font-mono text-xs truncate`}>
+                    <td
+                      className={`p-2 ${borderStyle} font-bold text-right text-black font-mono text-xs truncate ${changeBg(row.total, row.baseline?.total)} ${drillCellStyles}`}
+                      onClick={() => drillDown(row.total, keys, labels, null)}
+                    >
                       {formatValue(row.total)}
+                      {renderChange(row.total, row.baseline?.total)}
                     </td>
                   </>
                 ) : (
-                  <td className={`p-2 ${borderStyle} font-medium text-gray-900 text-xs uppercase truncate`}>
-                    {row.rowLabel}
+                  <td
+                    className={`p-2 ${borderStyle} font-medium text-gray-900 text-xs uppercase truncate`}
+                    style={{ paddingLeft: 8 + depth * 16 }}
+                    title={row.rowLabel}
+                  >
+                    {row.children && (
+                      <button onClick={() => toggleExpanded(path)} className="inline-flex align-middle mr-1 text-gray-600 hover:text-blue-700">
+                        {expanded.has(path) ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                      </button>
+                    )}
+                    {/* Rows keyed by code (e.g. items in a custom pivot) show the code before the description */}
+                    {row.rowLabel !== row.rowKey && <span className="font-mono text-gray-500 mr-2">{row.rowKey}</span>}
+                    {onOpenRow && depth === 0 ? (
+                      <button onClick={() => onOpenRow(row.rowKey)} className="uppercase text-blue-700 hover:underline">
+                        {row.rowLabel}
+                      </button>
+                    ) : (
+                      row.rowLabel
+                    )}
                   </td>
                 )}
 
                 {/* Values */}
                 {report.columns.map(col => (
-                  <td key={col} className={`p-2 ${borderStyle} text-right text-gray-800 font-mono text-xs tabular-nums truncate`}>
-                    {formatValue(row.values[col])}
+                  <td
+                    key={col}
+                    className={`p-2 ${borderStyle} text-right text-gray-800 font-mono text-xs tabular-nums truncate ${changeBg(row.values[col], row.baseline?.values[col])} ${drillCellStyles}`}
+                    onClick={() => drillDown(row.values[col], keys, labels, col)}
+                  >
+                    {formatValue(row.values[col], isCurrency || currencyColumns.has(col))}
+                    {renderChange(row.values[col], row.baseline?.values[col], isCurrency || currencyColumns.has(col))}
                   </td>
                 ))}
 
                 {/* Row Total at end for non-product lists */}
                 {!isProductList && (
-                  <td className={`p-2 ${borderStyle} font-bold text-right text-black font-mono text-xs truncate`}>
+                  <td
+                    className={`p-2 ${borderStyle} font-bold text-right text-black font-mono text-xs truncate ${changeBg(row.total, row.baseline?.total)} ${drillCellStyles}`}
+                    onClick={() => drillDown(row.total, keys, labels, null)}
+                  >
                     {formatValue(row.total)}
+                    {renderChange(row.total, row.baseline?.total)}
                   </td>
                 )}
               </tr>
             ))}
+            {paddingBottom > 0 && (
+              <tr><td colSpan={columnCount} style={{ height: paddingBottom, padding: 0, border: 0 }} /></tr>
+            )}
           </tbody>
           
           {/* Footer Totals - Only show if NOT Product List */}
@@ -351,13 +574,22 @@ export const PivotTable: React.FC<PivotTableProps> = ({ report, type, title }) =
                 </td>
 
                 {report.columns.map(col => (
-                  <td key={col} className={`p-2 ${borderStyle} text-right font-mono text-xs tabular-nums truncate`}>
-                    {formatValue(colTotals[col])}
+                  <td
+                    key={col}
+                    className={`p-2 ${borderStyle} text-right font-mono text-xs tabular-nums truncate ${drillCellStyles}`}
+                    onClick={() => drillDown(colTotals[col], null, null, col)}
+                  >
+                    {formatValue(colTotals[col], isCurrency || currencyColumns.has(col))}
+                    {renderChange(colTotals[col], baselineColTotals[col], isCurrency || currencyColumns.has(col))}
                   </td>
                 ))}
 
-                <td className={`p-2 text-right ${borderStyle} font-mono text-xs tabular-nums truncate`}>
+                <td
+                  className={`p-2 text-right ${borderStyle} font-mono text-xs tabular-nums truncate ${drillCellStyles}`}
+                  onClick={() => drillDown(report.grandTotal, null, null, null)}
+                >
                   {formatValue(report.grandTotal)}
+                  {renderChange(report.grandTotal, report.baselineGrandTotal)}
                 </td>
               </tr>
             </tfoot>
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { RawSheet } from '../types';
+import { FileSpreadsheet, Layers } from 'lucide-react';
+
+interface SheetSelectorProps {
+  sheets: RawSheet[];
+  onConfirm: (sheets: RawSheet[]) => void;
+  onCancel: () => void;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({ sheets, onConfirm, onCancel }) => {
+  // Every sheet with data starts selected
+  const [selected, setSelected] = useState<Set<RawSheet>>(() => new Set(sheets.filter(s => s.rows.length > 0)));
+
+  const files = Array.from(new Set(sheets.map(s => s.sourceFile)));
+
+  const toggle = (sheet: RawSheet) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sheet)) next.delete(sheet);
+      else next.add(sheet);
+      return next;
+    });
+  };
+
+  const selectedRows = sheets.filter(s => selected.has(s)).reduce((sum, s) => sum + s.rows.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl border border-gray-200 w-full max-w-xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg">
+            <Layers className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Seleccionar hojas</h2>
+            <p className="text-xs text-gray-500">
+              {files.length} {files.length === 1 ? 'archivo' : 'archivos'}, {sheets.length} hojas. Las filas se combinan sin duplicar documento + artículo.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar px-6 py-4 space-y-4">
+          {files.map(file => (
+            <div key={file}>
+              <div className="flex items-center gap-2 mb-2 text-sm font-semibold text-slate-800">
+                <FileSpreadsheet className="w-4 h-4 text-emerald-600" />
+                <span className="truncate" title={file}>{file}</span>
+              </div>
+              <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                {sheets.filter(s => s.sourceFile === file).map(sheet => {
+                  const isEmpty = sheet.rows.length === 0;
+                  return (
+                    <label
+                      key={sheet.sourceSheet}
+                      className={`flex items-center gap-2 px-3 py-2 text-xs ${isEmpty ? 'text-gray-400 cursor-not-allowed' : 'text-gray-800 cursor-pointer hover:bg-blue-50'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        className="accent-blue-600"
+                        checked={selected.has(sheet)}
+                        disabled={isEmpty}
+                        onChange={() => toggle(sheet)}
+                      />
+                      <span className="flex-1 truncate">{sheet.sourceSheet}</span>
+                      <span className="font-mono text-gray-400">{isEmpty ? 'vacía' : `${sheet.rows.length} filas`}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between gap-3">
+          <span className="text-xs font-mono text-gray-500">
+            Filas seleccionadas: <strong className="text-slate-900">{selectedRows}</strong>
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="text-sm text-gray-600 hover:text-blue-700 font-medium px-4 py-2 border border-gray-300 hover:border-blue-400 bg-white rounded-lg transition-all shadow-sm"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(sheets.filter(s => selected.has(s)))}
+              disabled={selected.size === 0}
+              className="text-sm font-semibold px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Continuar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
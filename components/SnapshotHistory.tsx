@@ -0,0 +1,58 @@
+import React from 'react';
+import { SnapshotSummary } from '../types';
+import { History, Trash2 } from 'lucide-react';
+
+interface SnapshotHistoryProps {
+  snapshots: SnapshotSummary[];
+  onOpen: (id: number) => void;
+  onDelete: (id: number) => void;
+  isLoading: boolean;
+}
+
+const formatUploadTime = (date: Date) =>
+  new Intl.DateTimeFormat('es-PE', { dateStyle: 'short', timeStyle: 'short' }).format(date);
+
+// Short description of the filters the snapshot was last viewed with
+const describeFilters = (snapshot: SnapshotSummary) => {
+  const { excludedStatuses, allowedGroups, dateFrom, dateTo } = snapshot.filters;
+  const parts = [`${allowedGroups.length} ${allowedGroups.length === 1 ? 'grupo' : 'grupos'}`];
+  if (excludedStatuses.length > 0) parts.push(`sin ${excludedStatuses.join(', ')}`);
+  if (dateFrom || dateTo) parts.push(`${dateFrom || '…'} a ${dateTo || '…'}`);
+  return parts.join(' · ');
+};
+
+export const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({ snapshots, onOpen, onDelete, isLoading }) => {
+  if (snapshots.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xl mx-auto">
+      <div className="flex items-center gap-2 mb-2 text-sm font-semibold text-slate-800">
+        <History className="w-4 h-4 text-blue-600" />
+        Cargas anteriores
+      </div>
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 bg-white max-h-72 overflow-auto custom-scrollbar">
+        {snapshots.map(snapshot => (
+          <div key={snapshot.id} className="flex items-center gap-3 px-4 py-2.5 text-xs hover:bg-blue-50">
+            <button
+              onClick={() => onOpen(snapshot.id)}
+              disabled={isLoading}
+              className="flex-1 min-w-0 text-left disabled:cursor-wait"
+            >
+              <div className="font-semibold text-slate-900 truncate" title={snapshot.fileName}>{snapshot.fileName}</div>
+              <div className="text-gray-500 truncate">
+                {formatUploadTime(snapshot.uploadedAt)} · {snapshot.rowCount} filas · {describeFilters(snapshot)}
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(snapshot.id)}
+              title="Eliminar del historial"
+              className="text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
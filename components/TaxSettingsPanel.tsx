@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProcessedRow, TaxSettings } from '../types';
+import { getDistinctValues } from '../utils/dataProcessor';
+import { DEFAULT_TAX_SETTINGS } from '../utils/taxSettings';
+import { RotateCcw, Search } from 'lucide-react';
+
+interface TaxSettingsPanelProps {
+  data: ProcessedRow[];
+  settings: TaxSettings;
+  onSettingsChange: (settings: TaxSettings) => void;
+}
+
+export const TaxSettingsPanel: React.FC<TaxSettingsPanelProps> = ({ data, settings, onSettingsChange }) => {
+  const [clientFilter, setClientFilter] = useState('');
+  const groups = useMemo(() => getDistinctValues(data, 'groupName'), [data]);
+  const clients = useMemo(() => getDistinctValues(data, 'clientName'), [data]);
+
+  // Exempt clients stay visible even when they don't match the search
+  const visibleClients = useMemo(() => {
+    const term = clientFilter.trim().toLowerCase();
+    if (!term) return clients;
+    return clients.filter(c => c.toLowerCase().includes(term) || settings.exemptClients.includes(c));
+  }, [clients, clientFilter, settings.exemptClients]);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  // The field keeps what is being typed; only a valid percentage reaches the reports, so clearing
+  // the field to type a new rate does not recompute everything at 0%
+  const ratePercent = String(Number((settings.rate * 100).toFixed(2)));
+  const [rateText, setRateText] = useState(ratePercent);
+  useEffect(() => setRateText(ratePercent), [ratePercent]);
+
+  const handleRateChange = (percent: string) => {
+    setRateText(percent);
+    const value = Number(percent);
+    if (percent.trim() === '' || Number.isNaN(value) || value < 0) return;
+    onSettingsChange({ ...settings, rate: value / 100 });
+  };
+
+  const renderList = (values: string[], selected: string[], onToggle: (value: string) => void) => (
+    <div className="max-h-40 overflow-auto custom-scrollbar border border-gray-200 rounded-md bg-white divide-y divide-gray-100">
+      {values.map(value => (
+        <label key={value} className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-800 cursor-pointer hover:bg-blue-50">
+          <input
+            type="checkbox"
+            className="accent-blue-600"
+            checked={selected.includes(value)}
+            onChange={() => onToggle(value)}
+          />
+          <span className="flex-1 truncate" title={value}>{value || '(vacío)'}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800">Configuración de IGV</h3>
+        <button
+          onClick={() => onSettingsChange(DEFAULT_TAX_SETTINGS)}
+          className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-blue-700"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Restablecer predeterminado
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="w-40">
+          <strong className="block text-blue-700 uppercase tracking-wider mb-2 text-[10px]">Tasa de IGV</strong>
+          <div className="relative">
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={rateText}
+              onChange={(e) => handleRateChange(e.target.value)}
+              onBlur={() => setRateText(ratePercent)}
+              className="block w-full pr-8 pl-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="absolute inset-y-0 right-3 flex items-center text-sm text-gray-500">%</span>
+          </div>
+        </div>
+        <div className="flex-1 min-w-[220px]">
+          <strong className="block text-blue-700 uppercase tracking-wider mb-2 text-[10px]">Grupos exonerados</strong>
+          {renderList(groups, settings.exemptGroups, (g) =>
+            onSettingsChange({ ...settings, exemptGroups: toggle(settings.exemptGroups, g) })
+          )}
+        </div>
+        <div className="flex-1 min-w-[260px]">
+          <strong className="block text-blue-700 uppercase tracking-wider mb-2 text-[10px]">Clientes exonerados</strong>
+          <div className="relative mb-2">
+            <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+              <Search className="h-3.5 w-3.5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={clientFilter}
+              onChange={(e) => setClientFilter(e.target.value)}
+              placeholder="Buscar cliente..."
+              className="block w-full pl-7 pr-2 py-1 border border-gray-300 rounded-md text-xs bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          {renderList(visibleClients, settings.exemptClients, (c) =>
+            onSettingsChange({ ...settings, exemptClients: toggle(settings.exemptClients, c) })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ValidationIssue, ValidationIssueType } from '../types';
+import { formatIssueRow } from '../utils/validation';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  excludedTypes: ValidationIssueType[];
+  onExcludedTypesChange: (types: ValidationIssueType[]) => void;
+  totalRows: number;
+  keptRows: number;
+  multiSource: boolean;
+}
+
+// Row numbers listed before collapsing into "y N más"
+const MAX_ROWS_SHOWN = 40;
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, excludedTypes, onExcludedTypesChange, totalRows, keptRows, multiSource }) => {
+  const [expanded, setExpanded] = useState<ValidationIssueType | null>(null);
+
+  const setExcluded = (type: ValidationIssueType, exclude: boolean) => {
+    onExcludedTypesChange(
+      exclude ? [...excludedTypes.filter(t => t !== type), type] : excludedTypes.filter(t => t !== type)
+    );
+  };
+
+  if (issues.length === 0) {
+    return (
+      <div className="bg-emerald-50 p-4 border border-emerald-200 rounded-lg flex items-center gap-2 text-sm text-emerald-800">
+        <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+        No se encontraron problemas de calidad en las {totalRows} filas importadas.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-amber-500" />
+          Calidad de datos
+        </h3>
+        <span className="text-xs font-mono text-gray-500">
+          Filas usadas: <strong className="text-slate-900">{keptRows}</strong> / {totalRows}
+        </span>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+        {issues.map(issue => {
+          const isExcluded = excludedTypes.includes(issue.type);
+          const isExpanded = expanded === issue.type;
+          const shownRows = issue.rows.slice(0, MAX_ROWS_SHOWN);
+          const hiddenCount = issue.rows.length - shownRows.length;
+
+          return (
+            <div key={issue.type} className="px-3 py-2">
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-0.5 min-w-[3rem] text-center">
+                  {issue.rows.length}
+                </span>
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : issue.type)}
+                  className="flex-1 text-left"
+                >
+                  <span className="block text-xs font-semibold text-slate-800">{issue.label}</span>
+                  <span className="block text-[11px] text-gray-500">{issue.description}</span>
+                </button>
+                <div className="flex text-[11px] font-semibold border border-gray-300 rounded-md overflow-hidden">
+                  <button
+                    onClick={() => setExcluded(issue.type, false)}
+                    className={`px-2 py-1 ${!isExcluded ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    Conservar
+                  </button>
+                  <button
+                    onClick={() => setExcluded(issue.type, true)}
+                    className={`px-2 py-1 border-l border-gray-300 ${isExcluded ? 'bg-red-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    Excluir
+                  </button>
+                </div>
+              </div>
+              {isExpanded && (
+                <p className="mt-2 ml-[3.75rem] text-[11px] font-mono text-gray-600 leading-relaxed">
+                  Filas: {shownRows.map(row => formatIssueRow(issue.type, row, multiSource)).join(', ')}
+                  {hiddenCount > 0 && ` y ${hiddenCount} más`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -4,17 +4,93 @@ export interface RawRow {
 }
 
 export interface ProcessedRow {
+  rowNumber: number; // Row in the source sheet (header is row 1)
   docId: string;
   status: string;
   groupName: string;
   district: string; // Condado
   salesRep: string; // Nombre de empleado
   totalAmount: number;
+  currency: string; // ISO code of the document currency (Moneda del documento)
   itemId: string;
   itemDesc: string;
   quantity: number;
+  lineAmount: number | null; // Line total (or unit price × quantity) in the document currency; null when the file has neither
   clientName: string; // Nombre de cliente/proveedor
   destination: string; // Destino
+  postingDate: Date | null; // Fecha de contabilización
+  deliveryDate: Date | null; // Fecha de entrega
+  sourceFile: string; // Uploaded file the line came from
+  sourceSheet: string; // Sheet within that file
+  unparsedValues?: { [field in NumericField]?: string }; // Source text that could not be read as a number
+}
+
+// Mappable fields read as numbers
+export type NumericField = 'totalAmount' | 'quantity' | 'lineTotal' | 'unitPrice';
+
+// Fields of ProcessedRow that are read from a source column
+export type MappableField =
+  | 'docId'
+  | 'status'
+  | 'groupName'
+  | 'district'
+  | 'salesRep'
+  | 'totalAmount'
+  | 'currency'
+  | 'itemId'
+  | 'itemDesc'
+  | 'quantity'
+  | 'lineTotal'
+  | 'unitPrice'
+  | 'clientName'
+  | 'destination'
+  | 'postingDate'
+  | 'deliveryDate';
+
+// Source header assigned to each field (unassigned fields fall back to defaults)
+export type ColumnMapping = {
+  [field in MappableField]?: string;
+};
+
+export interface RawSheet {
+  sourceFile: string;
+  sourceSheet: string;
+  headers: string[]; // Source headers in file order
+  rows: RawRow[];
+  rowNumbers?: number[]; // Sheet row of each entry in rows (header is row 1)
+  textFormat?: TextFormat; // Only for CSV/TSV input
+}
+
+// How a delimited text file was read, as detected on import
+export interface TextFormat {
+  encoding: string;
+  delimiter: string;
+  decimalSeparator: '.' | ',';
+}
+
+// Progress of a load running in the background worker
+export interface LoadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsProcessed: number;
+}
+
+export enum ValidationIssueType {
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  INVALID_QUANTITY = 'INVALID_QUANTITY',
+  INVALID_LINE_AMOUNT = 'INVALID_LINE_AMOUNT',
+  NEGATIVE_QUANTITY = 'NEGATIVE_QUANTITY',
+  EMPTY_DOC_ID = 'EMPTY_DOC_ID',
+  INCONSISTENT_TOTAL = 'INCONSISTENT_TOTAL',
+  UNKNOWN_REP = 'UNKNOWN_REP',
+  MISSING_DISTRICT = 'MISSING_DISTRICT',
+}
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  label: string;
+  description: string;
+  rows: ProcessedRow[]; // Offending source rows
 }
 
 export interface PivotData {
@@ -24,17 +100,201 @@ export interface PivotData {
   values: {
     [salesRep: string]: number;
   };
+  children?: PivotData[]; // Next row level; values and total are then the group subtotal
+  baseline?: PivotBaseline; // Same row in the baseline snapshot, set on comparison reports
+}
+
+export interface PivotBaseline {
+  total: number;
+  values: {
+    [column: string]: number;
+  };
+}
+
+// A document whose presence or total differs between the baseline and the current snapshot
+export interface DocumentChange {
+  docId: string;
+  clientName: string;
+  salesRep: string;
+  before: number; // Document total in the baseline (0 when it appeared), on the report's amount basis
+  after: number; // Document total now (0 when it disappeared)
+  unconverted?: boolean; // In a currency without an exchange rate: listed, but its amount is unknown
+}
+
+export interface DocumentChanges {
+  appeared: DocumentChange[];
+  disappeared: DocumentChange[]; // Usually invoiced since the baseline
+  changed: DocumentChange[];
 }
 
 export interface ReportResult {
   columns: string[]; // List of sales reps (columns)
   data: PivotData[];
   grandTotal: number;
+  columnTitle?: string; // Super header over the columns (defaults to the sales channel)
+  rowTitle?: string; // Header of the row label column (defaults to the district)
+  currencyColumns?: string[]; // Columns holding amounts when the report mixes counts and amounts
+  measure?: PivotMeasure; // Set for reports built by the pivot engine
+  amountBasis?: AmountBasis; // Set for amount reports
+  taxRate?: number;
+  currency?: string; // Reporting currency of the amounts
+  unconverted?: UnconvertedAmounts; // Documents left out of the amounts for lack of an exchange rate
+  baselineGrandTotal?: number; // Set on comparison reports
+  documentChanges?: DocumentChanges; // Set on comparison reports
+}
+
+// Reports the charts dashboard is drawn from
+export interface DashboardReports {
+  amounts: ReportResult & { amountBasis: AmountBasis; taxRate: number }; // NET_AMOUNT: districts by rep
+  products: ReportResult; // PRODUCT_LIST: quantities by item
+  groups: ReportResult; // Distinct documents by group
+}
+
+// One client's pending documents, most ordered items and destinations (client detail drawer)
+export interface ClientDetail {
+  clientName: string;
+  amount: number; // On the report's amount basis and currency
+  currency: string;
+  documents: { docId: string; salesRep: string; status: string; date: Date | null; amount: number; lineCount: number }[];
+  topItems: { itemId: string; itemDesc: string; quantity: number; documents: number }[];
+  destinations: { destination: string; documents: number }[];
+}
+
+// A clicked pivot cell: rowPath is null for a column total, column is null for a row total (both for the grand total)
+export interface DrillDownTarget {
+  rowPath: string[] | null; // Row keys from the top level down to the clicked row
+  column: string | null;
+  rowKeys?: string[]; // Top-level rows a total covers, when column filters hide the others
+  label: string; // Human-readable description of the cell
+}
+
+// Excel-like filter on one grid column: a checklist of values to show for text, a range for numbers
+export type ColumnFilter =
+  | { kind: 'values'; values: string[] }
+  | { kind: 'range'; min: number | null; max: number | null };
+
+export type ColumnFilters = {
+  [column: string]: ColumnFilter;
+};
+
+export type DateField = 'postingDate' | 'deliveryDate';
+
+export interface FilterRules {
+  excludedStatuses: string[]; // Rows with these statuses are discarded
+  allowedGroups: string[]; // Only rows in these groups are kept
+  dateField: DateField; // Date used by the range filter and period reports
+  dateFrom: string; // yyyy-mm-dd, empty for no lower bound
+  dateTo: string; // yyyy-mm-dd, empty for no upper bound
+  chartFocus?: ChartFocus[]; // Values picked on the charts, at most one per field
+}
+
+// A value picked by clicking a chart; every report is then limited to it
+export interface ChartFocus {
+  field: 'district' | 'salesRep' | 'itemId' | 'groupName';
+  value: string;
+  label: string;
+}
+
+export enum TimeGranularity {
+  MONTH = 'MONTH',
+  WEEK = 'WEEK',
+}
+
+// Which part of the document total the amount reports show
+export enum AmountBasis {
+  GROSS = 'GROSS', // Total with IGV
+  NET = 'NET', // Total without IGV
+  TAX = 'TAX', // IGV only
+}
+
+export interface TaxSettings {
+  rate: number; // IGV as a fraction, e.g. 0.18
+  exemptGroups: string[]; // Groups whose documents carry no IGV
+  exemptClients: string[]; // Clients whose documents carry no IGV
+}
+
+// Soles per unit of a foreign currency, in force from the given date
+export interface ExchangeRate {
+  currency: string;
+  date: string; // yyyy-mm-dd
+  rate: number;
+}
+
+export interface CurrencySettings {
+  reportingCurrency: string; // Amounts are converted to this currency before aggregation
+  rates: ExchangeRate[];
+}
+
+// Documents whose currency has no exchange rate; they still count, but their amounts are left out
+export interface UnconvertedAmounts {
+  documents: number;
+  currencies: string[];
+}
+
+// Fields a pivot can be laid out by ('period' is the month/week of the filter date)
+export type PivotDimension =
+  | 'district'
+  | 'salesRep'
+  | 'clientName'
+  | 'destination'
+  | 'groupName'
+  | 'itemId'
+  | 'status'
+  | 'period';
+
+export enum PivotMeasure {
+  DISTINCT_DOCS = 'DISTINCT_DOCS', // Distinct docIds
+  NET_AMOUNT = 'NET_AMOUNT', // Document total, counted once and split across its lines by line amount (whole on the first line without them)
+  SUM_QUANTITY = 'SUM_QUANTITY', // Sum of line quantities
+  DISTINCT_CLIENTS = 'DISTINCT_CLIENTS', // Distinct clientNames
+}
+
+export interface PivotConfig {
+  rowDimension: PivotDimension;
+  nestedDimensions?: PivotDimension[]; // Further row levels under rowDimension (e.g. Client → Item)
+  columnDimension: PivotDimension;
+  measure: PivotMeasure;
+}
+
+export interface PivotPreset {
+  name: string;
+  config: PivotConfig;
+}
+
+export interface ReportOptions {
+  rules: FilterRules;
+  tax: TaxSettings;
+  currency: CurrencySettings;
+  amountBasis: AmountBasis;
+  timeGranularity: TimeGranularity;
+  pivot: PivotConfig; // Layout used by the CUSTOM_PIVOT report
+  baseline?: ProcessedRow[] | null; // Earlier snapshot; when set, reports carry the change against it
+}
+
+// Upload kept in the browser's history (IndexedDB)
+export interface SnapshotSummary {
+  id: number;
+  fileName: string;
+  uploadedAt: Date;
+  rowCount: number;
+  filters: FilterRules; // Filters last applied to the snapshot
+}
+
+export interface Snapshot extends SnapshotSummary {
+  sheets: RawSheet[]; // Source sheets, so the mapping can be changed after reopening
+  mapping: ColumnMapping;
+  rows: ProcessedRow[];
 }
 
 export enum ReportType {
   ORDER_COUNT = 'ORDER_COUNT',
   NET_AMOUNT = 'NET_AMOUNT',
   PRODUCT_LIST = 'PRODUCT_LIST',
+  PRODUCT_REVENUE = 'PRODUCT_REVENUE',
+  TIMELINE = 'TIMELINE',
+  AGEING = 'AGEING',
+  CLIENT_SUMMARY = 'CLIENT_SUMMARY',
+  CUSTOM_PIVOT = 'CUSTOM_PIVOT',
+  DASHBOARD = 'DASHBOARD',
   CLIENT_SEARCH = 'CLIENT_SEARCH',
 }
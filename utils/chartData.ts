@@ -0,0 +1,104 @@
+import { ChartFocus, PivotConfig, PivotMeasure, ReportResult } from '../types';
+
+// Layout of the report behind the group share chart
+export const GROUP_SHARE_PIVOT: PivotConfig = {
+  rowDimension: 'groupName',
+  columnDimension: 'status',
+  measure: PivotMeasure.DISTINCT_DOCS,
+};
+
+// Products shown in the top products chart
+export const TOP_PRODUCTS = 20;
+
+// Blue first, as in the rest of the app; reps beyond the palette reuse it
+export const CHART_COLORS = ['#2563eb', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b', '#84cc16'];
+
+export interface ChartSegment {
+  key: string;
+  value: number;
+  color: string;
+}
+
+export interface ChartBar {
+  key: string;
+  label: string;
+  total: number;
+  segments: ChartSegment[];
+}
+
+// Stable color per column, by its position in the report
+export const getColorScale = (keys: string[]) => {
+  const colors = new Map(keys.map((key, idx) => [key, CHART_COLORS[idx % CHART_COLORS.length]]));
+  return (key: string) => colors.get(key) || CHART_COLORS[0];
+};
+
+// One bar per report row, split by column (e.g. districts stacked by rep), biggest first
+export const getStackedBars = (report: ReportResult): ChartBar[] => {
+  const colorOf = getColorScale(report.columns);
+  return report.data
+    .map(row => ({
+      key: row.rowKey,
+      label: row.rowLabel || row.rowKey,
+      total: row.total,
+      segments: report.columns
+        .filter(col => row.values[col])
+        .map(col => ({ key: col, value: row.values[col], color: colorOf(col) })),
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+// One bar per report column with its total over all rows (e.g. the rep ranking), biggest first
+export const getColumnRanking = (report: ReportResult): ChartBar[] => {
+  const colorOf = getColorScale(report.columns);
+  return report.columns
+    .map(col => {
+      const total = report.data.reduce((sum, row) => sum + (row.values[col] || 0), 0);
+      return { key: col, label: col, total, segments: [{ key: col, value: total, color: colorOf(col) }] };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+// Rows with the largest totals as single-color bars (e.g. top products)
+export const getTopRows = (report: ReportResult, limit: number): ChartBar[] => {
+  return [...report.data]
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit)
+    .map(row => ({
+      key: row.rowKey,
+      // Items are keyed by code; the description alone can repeat
+      label: row.rowLabel && row.rowLabel !== row.rowKey ? `${row.rowKey} - ${row.rowLabel}` : row.rowKey,
+      total: row.total,
+      segments: [{ key: row.rowKey, value: row.total, color: CHART_COLORS[0] }],
+    }));
+};
+
+// Share of the grand total held by each row (e.g. pending orders by group)
+export const getShares = (report: ReportResult): { key: string; label: string; value: number; share: number; color: string }[] => {
+  const total = report.data.reduce((sum, row) => sum + row.total, 0);
+  return [...report.data]
+    .sort((a, b) => b.total - a.total)
+    .map((row, idx) => ({
+      key: row.rowKey,
+      label: row.rowLabel || row.rowKey,
+      value: row.total,
+      share: total ? row.total / total : 0,
+      color: CHART_COLORS[idx % CHART_COLORS.length],
+    }));
+};
+
+// Clicking a chart picks its values; clicking the same values again clears them
+export const toggleChartFocus = (current: ChartFocus[], selection: ChartFocus[]): ChartFocus[] => {
+  const isActive = selection.every(f => current.some(c => c.field === f.field && c.value === f.value));
+  const others = current.filter(c => !selection.some(f => f.field === c.field));
+  return isActive ? others : [...others, ...selection];
+};
+
+export const isFocused = (current: ChartFocus[] | undefined, field: ChartFocus['field'], value: string): boolean =>
+  !!current?.some(c => c.field === field && c.value === value);
+
+export const CHART_FOCUS_LABELS: { [field in ChartFocus['field']]: string } = {
+  district: 'Distrito',
+  salesRep: 'Vendedor',
+  itemId: 'Artículo',
+  groupName: 'Grupo',
+};
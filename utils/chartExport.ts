@@ -0,0 +1,45 @@
+// Charts are plain SVG drawn with presentation attributes (no CSS classes),
+// so the markup on screen is exactly what gets saved.
+
+const download = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+};
+
+const serialize = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const downloadSvg = (svg: SVGSVGElement, filename: string) => {
+  const url = URL.createObjectURL(new Blob([serialize(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+  download(url, filename);
+  URL.revokeObjectURL(url);
+};
+
+// Rendered at twice the chart's own size so the image stays sharp in presentations
+export const downloadPng = (svg: SVGSVGElement, filename: string, scale: number = 2) => {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serialize(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      const pngUrl = URL.createObjectURL(blob);
+      download(pngUrl, filename);
+      URL.revokeObjectURL(pngUrl);
+    }, 'image/png');
+  };
+  image.src = url;
+};
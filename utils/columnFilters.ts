@@ -0,0 +1,67 @@
+import { ColumnFilter, ColumnFilters, PivotData, ProcessedRow, ReportResult } from '../types';
+
+// Column key of the row labels in pivot filters (the other keys are report columns)
+export const ROW_LABEL_COLUMN = 'rowLabel';
+
+export const matchesColumnFilter = (value: string | number | undefined, filter: ColumnFilter): boolean => {
+  if (filter.kind === 'values') {
+    return filter.values.includes(String(value ?? ''));
+  }
+  const num = typeof value === 'number' ? value : Number(value) || 0;
+  return (filter.min === null || num >= filter.min) && (filter.max === null || num <= filter.max);
+};
+
+// Rows that pass every active filter
+export const filterRowsByColumns = <T>(
+  rows: T[],
+  filters: ColumnFilters,
+  valueOf: (row: T, column: string) => string | number | undefined
+): T[] => {
+  const active = Object.entries(filters);
+  if (active.length === 0) return rows;
+  return rows.filter(row => active.every(([column, filter]) => matchesColumnFilter(valueOf(row, column), filter)));
+};
+
+// Client search grid: columns are ProcessedRow fields
+export const filterProcessedRows = (rows: ProcessedRow[], filters: ColumnFilters): ProcessedRow[] =>
+  filterRowsByColumns(rows, filters, (row, column) => row[column as keyof ProcessedRow] as string | number);
+
+// Pivot grid: filters apply to the top-level rows (their detail stays intact) and totals are recomputed
+// from the rows left. Filters on columns the report no longer has are ignored.
+export const applyPivotFilters = (report: ReportResult, filters: ColumnFilters): ReportResult => {
+  const relevant: ColumnFilters = {};
+  Object.entries(filters).forEach(([column, filter]) => {
+    if (column === ROW_LABEL_COLUMN || report.columns.includes(column)) relevant[column] = filter;
+  });
+  if (Object.keys(relevant).length === 0) return report;
+
+  const data = filterRowsByColumns(report.data, relevant, (row: PivotData, column) =>
+    column === ROW_LABEL_COLUMN ? row.rowKey : row.values[column] || 0
+  );
+
+  return {
+    ...report,
+    data,
+    grandTotal: data.reduce((acc, curr) => acc + curr.total, 0),
+    ...(report.baselineGrandTotal !== undefined && {
+      baselineGrandTotal: data.reduce((acc, curr) => acc + (curr.baseline?.total || 0), 0),
+    }),
+  };
+};
+
+export const getActivePivotFilters = (report: ReportResult, filters: ColumnFilters): string[] =>
+  Object.keys(filters).filter(column => column === ROW_LABEL_COLUMN || report.columns.includes(column));
+
+const formatNumber = (val: number) => new Intl.NumberFormat('es-PE').format(val);
+
+// Chip text, e.g. "LIMA, ICA", "3 valores" or "≥ 10"
+export const describeColumnFilter = (filter: ColumnFilter, labelOf: (value: string) => string = v => v): string => {
+  if (filter.kind === 'values') {
+    if (filter.values.length === 0) return 'ninguno';
+    if (filter.values.length <= 2) return filter.values.map(v => labelOf(v) || '(vacío)').join(', ');
+    return `${filter.values.length} valores`;
+  }
+  if (filter.min !== null && filter.max !== null) return `${formatNumber(filter.min)} – ${formatNumber(filter.max)}`;
+  if (filter.min !== null) return `≥ ${formatNumber(filter.min)}`;
+  return `≤ ${formatNumber(filter.max ?? 0)}`;
+};
@@ -0,0 +1,64 @@
+import { ColumnMapping, MappableField } from '../types';
+
+interface FieldDefinition {
+  field: MappableField;
+  label: string;
+  aliases: string[]; // Known headers, compared case-insensitively
+}
+
+// Known ERP headers for each field, in the order shown in the mapping wizard
+export const FIELD_DEFINITIONS: FieldDefinition[] = [
+  { field: 'docId', label: 'Número de documento', aliases: ['Número de documento', 'Numero de documento', 'DocNum'] },
+  { field: 'status', label: 'Estado', aliases: ['Estado', 'Status'] },
+  { field: 'groupName', label: 'Nombre de Grupo', aliases: ['Nombre de Grupo', 'Grupo'] },
+  { field: 'district', label: 'Condado', aliases: ['Condado', 'Distrito', 'District'] },
+  { field: 'salesRep', label: 'Empleado de ventas', aliases: ['Nombre de empleado del departamento de ventas', 'Empleado', 'Vendedor', 'Sales Rep'] },
+  { field: 'totalAmount', label: 'Total del documento', aliases: ['Total del documento', 'Total Documento', 'Total'] },
+  { field: 'currency', label: 'Moneda del documento', aliases: ['Moneda del documento', 'Moneda', 'DocCur', 'Currency'] },
+  { field: 'itemId', label: 'Número de artículo', aliases: ['Número de artículo', 'Numero de articulo', 'Item No', 'Articulo'] },
+  { field: 'itemDesc', label: 'Descripción artículo/serv.', aliases: ['Descripción artículo/serv.', 'Descripcion', 'Description'] },
+  { field: 'quantity', label: 'Cantidad', aliases: ['Cantidad', 'Qty', 'Unidades'] },
+  { field: 'lineTotal', label: 'Total de línea', aliases: ['Total de línea', 'Total de linea', 'Total línea', 'Total (ML)', 'LineTotal', 'Importe'] },
+  { field: 'unitPrice', label: 'Precio unitario', aliases: ['Precio unitario', 'Precio por unidad', 'Precio', 'Price', 'Unit Price'] },
+  { field: 'clientName', label: 'Nombre de cliente/proveedor', aliases: ['Nombre de cliente/proveedor', 'Nombre de cliente', 'CardName', 'Cliente'] },
+  { field: 'destination', label: 'Destino', aliases: ['Destino', 'ShipToCode', 'Dirección de destino', 'Direccion'] },
+  { field: 'postingDate', label: 'Fecha de contabilización', aliases: ['Fecha de contabilización', 'Fecha de contabilizacion', 'Fecha contabilización', 'DocDate', 'Posting Date'] },
+  { field: 'deliveryDate', label: 'Fecha de entrega', aliases: ['Fecha de entrega', 'Fecha entrega', 'DocDueDate', 'Delivery Date'] },
+];
+
+const STORAGE_KEY = 'analisis-pedidos:column-mappings';
+
+// Guess the mapping from the known aliases of each field
+export const autoDetectMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  FIELD_DEFINITIONS.forEach(def => {
+    const found = headers.find(h =>
+      def.aliases.some(alias => h.toLowerCase().trim() === alias.toLowerCase())
+    );
+    if (found !== undefined) mapping[def.field] = found;
+  });
+  return mapping;
+};
+
+// Identifies a file layout: the same ERP query always yields the same set of headers
+export const getHeaderSignature = (headers: string[]): string => {
+  return headers.map(h => h.toLowerCase().trim()).sort().join('|');
+};
+
+const readStore = (): { [signature: string]: ColumnMapping } => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (signature: string): ColumnMapping | null => {
+  return readStore()[signature] || null;
+};
+
+export const saveMapping = (signature: string, mapping: ColumnMapping) => {
+  const store = readStore();
+  store[signature] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
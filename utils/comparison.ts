@@ -0,0 +1,82 @@
+import { DocumentChange, DocumentChanges, PivotData, ProcessedRow, ReportOptions, ReportResult } from '../types';
+import { documentAmount, getFirstLines } from './pivotEngine';
+import { isConverted } from './currency';
+
+// Differences below half a cent are rounding noise between exports
+const AMOUNT_TOLERANCE = 0.005;
+
+// Pairs rows by key at every level. The current report's order is kept (e.g. biggest clients first);
+// rows that only exist in the baseline follow, in the baseline's order, with zero current values
+const mergeLevel = (current: PivotData[], baseline: PivotData[] = []): PivotData[] => {
+  const baselineByKey = new Map(baseline.map(row => [row.rowKey, row]));
+
+  const merged = current.map(row => {
+    const base = baselineByKey.get(row.rowKey);
+    baselineByKey.delete(row.rowKey);
+    return withBaseline(row, base);
+  });
+
+  baselineByKey.forEach(base => {
+    const emptyRow: PivotData = { rowKey: base.rowKey, rowLabel: base.rowLabel, total: 0, values: {} };
+    if (base.children) emptyRow.children = [];
+    merged.push(withBaseline(emptyRow, base));
+  });
+
+  return merged;
+};
+
+const withBaseline = (row: PivotData, base: PivotData | undefined): PivotData => ({
+  ...row,
+  baseline: { total: base?.total || 0, values: base?.values || {} },
+  ...(row.children && { children: mergeLevel(row.children, base?.children) }),
+});
+
+// Documents are compared on their total, read from their first line, on the report's amount basis.
+// Documents without an exchange rate are still listed when they appear or go, but never as changed.
+export const compareDocuments = (currentRows: ProcessedRow[], baselineRows: ProcessedRow[], options: ReportOptions): DocumentChanges => {
+  const current = new Map(getFirstLines(currentRows).map(row => [row.docId, row]));
+  const baseline = new Map(getFirstLines(baselineRows).map(row => [row.docId, row]));
+  const changes: DocumentChanges = { appeared: [], disappeared: [], changed: [] };
+
+  const toChange = (row: ProcessedRow, before: number, after: number): DocumentChange => ({
+    docId: row.docId,
+    clientName: row.clientName,
+    salesRep: row.salesRep,
+    before,
+    after,
+    ...(!isConverted(row, options.currency) && { unconverted: true }),
+  });
+
+  current.forEach((row, docId) => {
+    const base = baseline.get(docId);
+    if (!base) {
+      changes.appeared.push(toChange(row, 0, documentAmount(row, options)));
+    } else if (isConverted(row, options.currency) && isConverted(base, options.currency)) {
+      const before = documentAmount(base, options);
+      const after = documentAmount(row, options);
+      if (Math.abs(after - before) > AMOUNT_TOLERANCE) changes.changed.push(toChange(row, before, after));
+    }
+  });
+  baseline.forEach((base, docId) => {
+    if (!current.has(docId)) changes.disappeared.push(toChange(base, documentAmount(base, options), 0));
+  });
+
+  return changes;
+};
+
+// Current report annotated with the baseline value of every row, cell and total
+export const compareReports = (current: ReportResult, baseline: ReportResult, documentChanges: DocumentChanges): ReportResult => {
+  const extraColumns = baseline.columns.filter(col => !current.columns.includes(col));
+  const columns = [...current.columns, ...extraColumns];
+  const currencyColumns = Array.from(new Set([...(current.currencyColumns || []), ...(baseline.currencyColumns || [])]));
+
+  return {
+    ...current,
+    // Engine columns are sorted keys; other reports (e.g. ageing bands) keep their own order
+    columns: current.measure ? columns.sort() : columns,
+    data: mergeLevel(current.data, baseline.data),
+    ...(currencyColumns.length > 0 && { currencyColumns }),
+    baselineGrandTotal: baseline.grandTotal,
+    documentChanges,
+  };
+};
@@ -0,0 +1,145 @@
+import { CurrencySettings, ExchangeRate, ProcessedRow, UnconvertedAmounts } from '../types';
+import { toIsoDate } from './dateUtils';
+
+// Currency of the books; exchange rates are stated in soles per unit
+export const LOCAL_CURRENCY = 'PEN';
+
+// Offered in the panel; other codes found in the file are added to the list
+export const COMMON_CURRENCIES = ['PEN', 'USD', 'EUR'];
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: LOCAL_CURRENCY,
+  rates: [],
+};
+
+const STORAGE_KEY = 'analisis-pedidos:currency-settings';
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored ? { ...DEFAULT_CURRENCY_SETTINGS, ...stored } : DEFAULT_CURRENCY_SETTINGS;
+  } catch {
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// How SAP and hand-made files write the currencies we trade in
+const CURRENCY_ALIASES: { [alias: string]: string } = {
+  'S/': 'PEN',
+  'S/.': 'PEN',
+  SOL: 'PEN',
+  SOLES: 'PEN',
+  'US$': 'USD',
+  $: 'USD',
+  DOL: 'USD',
+  DOLARES: 'USD',
+  'DÓLARES': 'USD',
+  '€': 'EUR',
+};
+
+// ISO code of a "Moneda del documento" cell; documents without one are in soles
+export const normaliseCurrency = (value: any): string => {
+  const text = String(value ?? '').trim().toUpperCase();
+  if (!text) return LOCAL_CURRENCY;
+  return CURRENCY_ALIASES[text] || text;
+};
+
+// Rate in force on a date: the latest one not after it. Documents older than the
+// first rate use that first rate, and undated ones the most recent.
+const createRateLookup = (rates: ExchangeRate[]) => {
+  const byCurrency = new Map<string, ExchangeRate[]>();
+  rates
+    .filter(r => r.rate > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(r => {
+      if (!byCurrency.has(r.currency)) byCurrency.set(r.currency, []);
+      byCurrency.get(r.currency)!.push(r);
+    });
+
+  return (currency: string, date: Date | null): number | null => {
+    if (currency === LOCAL_CURRENCY) return 1;
+    const candidates = byCurrency.get(currency);
+    if (!candidates) return null;
+    if (!date) return candidates[candidates.length - 1].rate;
+
+    const isoDate = toIsoDate(date);
+    let found = candidates[0];
+    for (const candidate of candidates) {
+      if (candidate.date > isoDate) break;
+      found = candidate;
+    }
+    return found.rate;
+  };
+};
+
+// Document totals restated in the reporting currency at the rate of their posting date.
+// Rows without a usable rate keep their amount and currency; isConverted tells them apart
+// so amount measures leave them out instead of adding another currency into the totals.
+export const convertRows = (rows: ProcessedRow[], settings: CurrencySettings): ProcessedRow[] => {
+  const target = settings.reportingCurrency;
+  // Rows saved before the currency column existed have no currency and are in soles
+  if (rows.every(row => (row.currency || LOCAL_CURRENCY) === target)) return rows;
+
+  const rateOf = createRateLookup(settings.rates);
+  return rows.map(row => {
+    const from = row.currency || LOCAL_CURRENCY;
+    if (from === target) return row;
+    const toLocal = rateOf(from, row.postingDate);
+    const fromLocal = rateOf(target, row.postingDate);
+    if (toLocal === null || fromLocal === null) return row;
+    const factor = toLocal / fromLocal;
+    return {
+      ...row,
+      totalAmount: row.totalAmount * factor,
+      lineAmount: typeof row.lineAmount === 'number' ? row.lineAmount * factor : null,
+      currency: target,
+    };
+  });
+};
+
+// False for a row convertRows could not restate: its amount is in another currency
+export const isConverted = (row: ProcessedRow, settings: CurrencySettings): boolean =>
+  (row.currency || LOCAL_CURRENCY) === settings.reportingCurrency;
+
+// Documents of converted rows that were left in their own currency, for report warnings
+export const getUnconvertedAmounts = (rows: ProcessedRow[], settings: CurrencySettings): UnconvertedAmounts | undefined => {
+  const docs = new Set<string>();
+  const currencies = new Set<string>();
+  rows.forEach(row => {
+    if (isConverted(row, settings)) return;
+    docs.add(row.docId);
+    currencies.add(row.currency);
+  });
+  return docs.size > 0 ? { documents: docs.size, currencies: Array.from(currencies).sort() } : undefined;
+};
+
+export const describeUnconverted = ({ documents, currencies }: UnconvertedAmounts): string =>
+  `${documents} ${documents === 1 ? 'documento' : 'documentos'} en ${currencies.join(', ')} sin tipo de cambio ${
+    documents === 1 ? 'queda' : 'quedan'
+  } fuera de los montos`;
+
+// Currencies that cannot be converted with the current rate table, for the settings panel
+export const getMissingRateCurrencies = (rows: ProcessedRow[], settings: CurrencySettings): string[] => {
+  const rateOf = createRateLookup(settings.rates);
+  const missing = new Set<string>();
+  rows.forEach(row => {
+    const from = row.currency || LOCAL_CURRENCY;
+    if (from === settings.reportingCurrency) return;
+    if (rateOf(from, null) === null) missing.add(from);
+    if (rateOf(settings.reportingCurrency, null) === null) missing.add(settings.reportingCurrency);
+  });
+  return Array.from(missing).sort();
+};
+
+export const formatCurrency = (val: number, currency: string = LOCAL_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat('es-PE', { style: 'currency', currency }).format(val);
+  } catch {
+    // Codes Intl does not know (typos in the file) are shown as plain numbers with the code
+    return `${currency} ${new Intl.NumberFormat('es-PE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(val)}`;
+  }
+};
@@ -1,190 +1,399 @@
 
-import * as XLSX from 'xlsx';
-import { ProcessedRow, ReportResult, ReportType, PivotData } from '../types';
-
-// Constants for filtering
-const EXCLUDED_STATUS = 'Cerrado';
-const ALLOWED_GROUPS = [
+import * as XLSX from 'xlsx-js-style';
+import { ProcessedRow, ReportResult, ReportType, PivotData, PivotMeasure, FilterRules, ColumnMapping, MappableField, NumericField, RawSheet, ReportOptions, DrillDownTarget, ClientDetail, UnconvertedAmounts } from '../types';
+import { formatTaxRate, getAmountBasisLabel } from './taxSettings';
+import { parseNumber } from './numberParser';
+import { convertRows, describeUnconverted, getUnconvertedAmounts, normaliseCurrency } from './currency';
+import { parseDateValue, toIsoDate, formatDate, NO_DATE_PERIOD } from './dateUtils';
+import { compareDocuments, compareReports } from './comparison';
+import { buildPivot, documentAmount, getDocumentLines, getFirstLines, selectPivotLines, MEASURES, PIVOT_PRESETS } from './pivotEngine';
+import { BLACK_BORDER, GROUP_FILL, SUPER_HEADER_FILL, currencyFormat, freezePanes, headerStyle, numberFormat, styleCell, writeStyledWorkbook } from './excelStyles';
+
+// Default preset for filtering (original "Mayoristas B-E, sin cerrados" behaviour)
+const DEFAULT_EXCLUDED_STATUS = 'Cerrado';
+const DEFAULT_ALLOWED_GROUPS = [
   'MAYORISTAS B',
   'MAYORISTAS C',
   'MAYORISTAS D',
   'MAYORISTAS E'
 ];
 
-// Helper to normalize keys and extract data safely
-const processRawData = (data: any[]): ProcessedRow[] => {
-  return data.map(row => {
-    // Helper to find a key case-insensitively
-    const getVal = (possibleKeys: string[], defaultVal: any = '') => {
-      const foundKey = Object.keys(row).find(k => 
-        possibleKeys.some(pk => k.toLowerCase().trim() === pk.toLowerCase())
-      );
-      return foundKey ? row[foundKey] : defaultVal;
+// Extract data safely using the confirmed column mapping
+export const processRawData = (sheet: RawSheet, mapping: ColumnMapping): ProcessedRow[] => {
+  return sheet.rows.map((row, idx) => {
+    // Helper to read the mapped column, falling back when unmapped or empty
+    const getVal = (field: MappableField, defaultVal: any = '') => {
+      const header = mapping[field];
+      if (!header || row[header] === undefined) return defaultVal;
+      return row[header];
+    };
+
+    // Numbers that cannot be read are null and keep their text for the quality panel
+    const unparsedValues: NonNullable<ProcessedRow['unparsedValues']> = {};
+    const getNumber = (field: NumericField, defaultVal: number | null): number | null => {
+      const value = getVal(field, null);
+      if (value === null || (typeof value === 'string' && value.trim() === '')) return defaultVal;
+      const number = parseNumber(value);
+      if (number === null) unparsedValues[field] = String(value);
+      return number;
     };
 
-    return {
-      docId: String(getVal(['Número de documento', 'Numero de documento', 'DocNum'], '')),
-      status: String(getVal(['Estado', 'Status'], '')),
-      groupName: String(getVal(['Nombre de Grupo', 'Grupo'], '')),
-      district: String(getVal(['Condado', 'Distrito', 'District'], 'Sin Condado')),
-      salesRep: String(getVal(['Nombre de empleado del departamento de ventas', 'Empleado', 'Vendedor', 'Sales Rep'], 'Desconocido')),
-      totalAmount: Number(getVal(['Total del documento', 'Total Documento', 'Total'], 0)),
-      itemId: String(getVal(['Número de artículo', 'Numero de articulo', 'Item No', 'Articulo'], '')),
-      itemDesc: String(getVal(['Descripción artículo/serv.', 'Descripcion', 'Description'], '')),
-      quantity: Number(getVal(['Cantidad', 'Qty', 'Unidades'], 1)),
-      clientName: String(getVal(['Nombre de cliente/proveedor', 'Nombre de cliente', 'CardName', 'Cliente'], 'Cliente Desconocido')),
-      destination: String(getVal(['Destino', 'ShipToCode', 'Dirección de destino', 'Direccion'], '')),
+    // Unreadable totals and quantities count as 0
+    const quantity = getNumber('quantity', 1) ?? 0;
+    const lineTotal = getNumber('lineTotal', null);
+    const unitPrice = getNumber('unitPrice', null);
+
+    const processed: ProcessedRow = {
+      // Without recorded row numbers, assume no blank rows after the header
+      rowNumber: sheet.rowNumbers?.[idx] ?? idx + 2,
+      docId: String(getVal('docId', '')),
+      status: String(getVal('status', '')),
+      groupName: String(getVal('groupName', '')),
+      district: String(getVal('district', 'Sin Condado')),
+      salesRep: String(getVal('salesRep', 'Desconocido')),
+      totalAmount: getNumber('totalAmount', 0) ?? 0,
+      currency: normaliseCurrency(getVal('currency', '')),
+      itemId: String(getVal('itemId', '')),
+      itemDesc: String(getVal('itemDesc', '')),
+      quantity,
+      lineAmount: lineTotal ?? (unitPrice !== null ? unitPrice * quantity : null),
+      clientName: String(getVal('clientName', 'Cliente Desconocido')),
+      destination: String(getVal('destination', '')),
+      postingDate: parseDateValue(getVal('postingDate', null)),
+      deliveryDate: parseDateValue(getVal('deliveryDate', null)),
+      sourceFile: sheet.sourceFile,
+      sourceSheet: sheet.sourceSheet,
     };
+    if (Object.keys(unparsedValues).length > 0) processed.unparsedValues = unparsedValues;
+    return processed;
   });
 };
 
-const filterRows = (rows: ProcessedRow[]): ProcessedRow[] => {
+// Distinct, sorted values of a text field (used to build the filter panel)
+export const getDistinctValues = (rows: ProcessedRow[], key: 'status' | 'groupName' | 'clientName'): string[] => {
+  return Array.from(new Set(rows.map(r => r[key]))).sort((a, b) => a.localeCompare(b));
+};
+
+// Builds the default preset from the values actually present in the file:
+// every status containing "Cerrado" is excluded and only Mayoristas B-E are kept.
+export const createDefaultFilterRules = (rows: ProcessedRow[]): FilterRules => {
+  return {
+    excludedStatuses: getDistinctValues(rows, 'status').filter(s => s.includes(DEFAULT_EXCLUDED_STATUS)),
+    allowedGroups: [...DEFAULT_ALLOWED_GROUPS],
+    dateField: 'postingDate',
+    dateFrom: '',
+    dateTo: '',
+  };
+};
+
+export const filterRows = (rows: ProcessedRow[], rules: FilterRules): ProcessedRow[] => {
+  const excluded = new Set(rules.excludedStatuses);
+  const allowed = new Set(rules.allowedGroups);
+
   return rows.filter(row => {
-    // Task 1.1: Discard if Status contains "Cerrado"
-    if (row.status.includes(EXCLUDED_STATUS)) return false;
+    // Discard if Status is one of the excluded ones
+    if (excluded.has(row.status)) return false;
 
-    // Task 1.2: Discard if Group Name is DIFFERENT from the allowed list
+    // Discard if Group Name is DIFFERENT from the allowed list
     // (Meaning: Keep ONLY if it IS in the allowed list)
-    if (!ALLOWED_GROUPS.includes(row.groupName)) return false;
+    if (!allowed.has(row.groupName)) return false;
+
+    // Date range: once a bound is set, rows without a date are left out
+    if (rules.dateFrom || rules.dateTo) {
+      const date = row[rules.dateField];
+      if (!date) return false;
+      const isoDate = toIsoDate(date);
+      if (rules.dateFrom && isoDate < rules.dateFrom) return false;
+      if (rules.dateTo && isoDate > rules.dateTo) return false;
+    }
+
+    // Values picked on the charts
+    if (rules.chartFocus && !rules.chartFocus.every(focus => row[focus.field] === focus.value)) return false;
 
     return true;
   });
 };
 
-export const parseExcel = async (file: File): Promise<ProcessedRow[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const jsonData = XLSX.utils.sheet_to_json(workbook.Sheets[firstSheetName]);
-        const processed = processRawData(jsonData);
-        resolve(processed);
-      } catch (err) {
-        reject(err);
+// Union of the headers of every selected sheet, in first-seen order
+export const getCombinedHeaders = (sheets: RawSheet[]): string[] => {
+  return Array.from(new Set(sheets.flatMap(s => s.headers)));
+};
+
+// Concatenates several sheets/files into one dataset. A line (docId + itemId) that was
+// already loaded from another source is skipped, so overlapping exports are not counted twice.
+// Lines missing either code cannot be told apart and are all kept, for validation to report.
+export const combineSheets = (sheets: RawSheet[], mapping: ColumnMapping, onSheetDone?: (rowsProcessed: number) => void): ProcessedRow[] => {
+  const firstSource = new Map<string, string>();
+  const combined: ProcessedRow[] = [];
+  let rowsProcessed = 0;
+
+  sheets.forEach(sheet => {
+    const sourceKey = `${sheet.sourceFile}|${sheet.sourceSheet}`;
+    processRawData(sheet, mapping).forEach(row => {
+      if (!row.docId.trim() || !row.itemId.trim()) {
+        combined.push(row);
+        return;
       }
-    };
-    reader.onerror = (err) => reject(err);
-    reader.readAsBinaryString(file);
+      const lineKey = `${row.docId}|${row.itemId}`;
+      const seenIn = firstSource.get(lineKey);
+      if (seenIn !== undefined && seenIn !== sourceKey) return;
+      firstSource.set(lineKey, sourceKey);
+      combined.push(row);
+    });
+    rowsProcessed += sheet.rows.length;
+    onSheetDone?.(rowsProcessed);
   });
+
+  return combined;
 };
 
-export const generateReport = (rows: ProcessedRow[], type: ReportType): ReportResult => {
-  const filteredRows = filterRows(rows);
+// Age bands for open orders, in days since the document date
+const AGEING_BUCKETS = [
+  { label: '0–7 días', maxDays: 7 },
+  { label: '8–15 días', maxDays: 15 },
+  { label: '16–30 días', maxDays: 30 },
+  { label: '+30 días', maxDays: Infinity },
+];
 
-  // 1. Identify all unique columns (Sales Reps)
-  const salesReps = Array.from(new Set(filteredRows.map(r => r.salesRep))).sort();
+const MS_PER_DAY = 86400000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const getAgeingBucket = (date: Date | null, today: Date): string => {
+  if (!date) return NO_DATE_PERIOD;
+  const ageDays = Math.max(0, Math.floor((today.getTime() - date.getTime()) / MS_PER_DAY));
+  return AGEING_BUCKETS.find(b => ageDays <= b.maxDays)!.label;
+};
+
+// Reports showing a count and an amount per column name them "<column> · Pedidos" and "<column> · Monto"
+const MEASURE_COLUMN_SEPARATOR = ' · ';
+const countColumn = (key: string) => `${key}${MEASURE_COLUMN_SEPARATOR}Pedidos`;
+const amountColumn = (key: string) => `${key}${MEASURE_COLUMN_SEPARATOR}Monto`;
+const columnKeyOf = (column: string) => column.slice(0, column.lastIndexOf(MEASURE_COLUMN_SEPARATOR));
+
+// Distinct documents per age band, by sales rep and district, with count and amount side by side
+const generateAgeingReport = (filteredRows: ProcessedRow[], options: ReportOptions, referenceDate: Date): ReportResult => {
+  const today = startOfDay(referenceDate);
 
-  // 2. Aggregate Data
   const rowMap = new Map<string, PivotData>();
-  
-  // Helper set to track unique documents for NET_AMOUNT calculation
-  const processedNetDocs = new Set<string>();
+  const usedBuckets = new Set<string>();
 
-  filteredRows.forEach(row => {
-    let rowKey = '';
-    let rowLabel = '';
-    
-    if (type === ReportType.PRODUCT_LIST) {
-      rowKey = row.itemId;
-      rowLabel = row.itemDesc;
-    } else {
-      // For Orders and Amounts, row is District (Condado)
-      rowKey = row.district;
-      rowLabel = row.district;
-    }
+  // Each document is aged once, attributed to its first line's rep and district
+  getFirstLines(filteredRows).forEach(row => {
+    const bucket = getAgeingBucket(row[options.rules.dateField], today);
+    usedBuckets.add(bucket);
 
+    const rowKey = `${row.salesRep}|${row.district}`;
     if (!rowMap.has(rowKey)) {
-      rowMap.set(rowKey, {
-        rowKey,
-        rowLabel,
-        total: 0,
-        values: {}
-      });
+      rowMap.set(rowKey, { rowKey, rowLabel: `${row.salesRep} / ${row.district}`, total: 0, values: {} });
     }
-
     const entry = rowMap.get(rowKey)!;
+    const amount = documentAmount(row, options);
 
-    if (type === ReportType.ORDER_COUNT) {
-      // DISTINCT COUNT of DocID handled in step 2b
-    } else if (type === ReportType.NET_AMOUNT) {
-      // Only sum the Total Document Amount ONCE per Document ID.
-      // If a document has multiple lines, subsequent lines for the same ID are ignored for the sum.
-      if (!processedNetDocs.has(row.docId)) {
-        processedNetDocs.add(row.docId);
-        
-        // Sum the Total Amount first (unique per doc), then divide by 1.18
-        const netVal = row.totalAmount / 1.18;
-        entry.values[row.salesRep] = (entry.values[row.salesRep] || 0) + netVal;
-        entry.total += netVal;
-      }
-    } else if (type === ReportType.PRODUCT_LIST) {
-      // Sum Quantity
-      entry.values[row.salesRep] = (entry.values[row.salesRep] || 0) + row.quantity;
-      entry.total += row.quantity;
+    entry.values[countColumn(bucket)] = (entry.values[countColumn(bucket)] || 0) + 1;
+    entry.values[amountColumn(bucket)] = (entry.values[amountColumn(bucket)] || 0) + amount;
+    entry.total += 1;
+  });
+
+  // Bands keep their natural order; "Sin fecha" only appears when some document lacks a date
+  const buckets = [...AGEING_BUCKETS.map(b => b.label), NO_DATE_PERIOD].filter(
+    b => b !== NO_DATE_PERIOD || usedBuckets.has(NO_DATE_PERIOD)
+  );
+
+  const data = Array.from(rowMap.values()).sort((a, b) => a.rowLabel!.localeCompare(b.rowLabel!));
+
+  return {
+    columns: buckets.flatMap(b => [countColumn(b), amountColumn(b)]),
+    data,
+    grandTotal: data.reduce((acc, curr) => acc + curr.total, 0),
+    columnTitle: 'ANTIGÜEDAD (DÍAS DESDE LA FECHA DEL DOCUMENTO)',
+    rowTitle: 'VENDEDOR / DISTRITO',
+    currencyColumns: buckets.map(amountColumn),
+    amountBasis: options.amountBasis,
+    taxRate: options.tax.rate,
+  };
+};
+
+// Distinct documents and their amount per client and sales rep, biggest clients first
+const generateClientReport = (filteredRows: ProcessedRow[], options: ReportOptions): ReportResult => {
+  const rowMap = new Map<string, PivotData & { amount: number }>();
+  const reps = new Set<string>();
+
+  // Each document counts once, with its whole amount, under its first line's rep
+  getFirstLines(filteredRows).forEach(row => {
+    reps.add(row.salesRep);
+    if (!rowMap.has(row.clientName)) {
+      rowMap.set(row.clientName, { rowKey: row.clientName, rowLabel: row.clientName, total: 0, values: {}, amount: 0 });
     }
+    const entry = rowMap.get(row.clientName)!;
+    const amount = documentAmount(row, options);
+
+    entry.values[countColumn(row.salesRep)] = (entry.values[countColumn(row.salesRep)] || 0) + 1;
+    entry.values[amountColumn(row.salesRep)] = (entry.values[amountColumn(row.salesRep)] || 0) + amount;
+    entry.total += 1;
+    entry.amount += amount;
   });
 
-  // 2b. Special Handling for ORDER_COUNT (Distinct Doc IDs)
-  if (type === ReportType.ORDER_COUNT) {
-    const distinctMap = new Map<string, { [key: string]: Set<string> }>();
-    
-    filteredRows.forEach(row => {
-      const rowKey = row.district;
-      if (!distinctMap.has(rowKey)) {
-        distinctMap.set(rowKey, { _total: new Set() });
-      }
-      const districtEntry = distinctMap.get(rowKey)!;
-      
-      // Add to cell set
-      if (!districtEntry[row.salesRep]) {
-        districtEntry[row.salesRep] = new Set();
-      }
-      districtEntry[row.salesRep].add(row.docId);
-      
-      // Add to row total set
-      districtEntry._total.add(row.docId);
-    });
+  const sortedReps = Array.from(reps).sort((a, b) => a.localeCompare(b));
+  const data: PivotData[] = Array.from(rowMap.values())
+    .sort((a, b) => b.amount - a.amount || a.rowLabel!.localeCompare(b.rowLabel!))
+    .map(({ amount, ...entry }) => entry);
 
-    // Convert Sets to Numbers
-    rowMap.clear();
-    distinctMap.forEach((cols, rKey) => {
-      const pivotEntry: PivotData = {
-        rowKey: rKey,
-        rowLabel: rKey,
-        total: cols._total.size,
-        values: {}
-      };
-      Object.keys(cols).forEach(key => {
-        if (key !== '_total') {
-          pivotEntry.values[key] = cols[key].size;
-        }
-      });
-      rowMap.set(rKey, pivotEntry);
-    });
+  return {
+    columns: sortedReps.flatMap(r => [countColumn(r), amountColumn(r)]),
+    data,
+    grandTotal: data.reduce((acc, curr) => acc + curr.total, 0),
+    columnTitle: 'VENDEDOR',
+    rowTitle: 'CLIENTE',
+    currencyColumns: sortedReps.map(amountColumn),
+    amountBasis: options.amountBasis,
+    taxRate: options.tax.rate,
+  };
+};
+
+const buildReport = (filteredRows: ProcessedRow[], type: ReportType, options: ReportOptions): ReportResult => {
+  if (type === ReportType.AGEING) {
+    return generateAgeingReport(filteredRows, options, new Date());
+  }
+  if (type === ReportType.CLIENT_SUMMARY) {
+    return generateClientReport(filteredRows, options);
   }
 
-  // 3. Convert Map to Array and Sort
-  const data = Array.from(rowMap.values()).sort((a, b) => a.rowLabel!.localeCompare(b.rowLabel!));
+  // Fixed tabs are presets of the pivot engine; the custom tab uses the user's layout
+  const config = type === ReportType.CUSTOM_PIVOT ? options.pivot : PIVOT_PRESETS[type].config;
+  return buildPivot(filteredRows, config, options);
+};
 
-  // 4. Calculate Grand Total
-  const grandTotal = data.reduce((acc, curr) => acc + curr.total, 0);
+// Filtered lines with their totals in the reporting currency, ready to aggregate
+export const prepareRows = (rows: ProcessedRow[], options: ReportOptions): ProcessedRow[] =>
+  convertRows(filterRows(rows, options.rules), options.currency);
+
+export const generateReport = (rows: ProcessedRow[], type: ReportType, options: ReportOptions): ReportResult => {
+  const filteredRows = prepareRows(rows, options);
+  const report: ReportResult = { ...buildReport(filteredRows, type, options), currency: options.currency.reportingCurrency };
+  const unconverted = report.amountBasis && getUnconvertedAmounts(filteredRows, options.currency);
+  if (unconverted) report.unconverted = unconverted;
+  if (!options.baseline) return report;
+
+  // The baseline snapshot goes through the same filters, conversion and layout
+  const baselineRows = prepareRows(options.baseline, options);
+  return compareReports(report, buildReport(baselineRows, type, options), compareDocuments(filteredRows, baselineRows, options));
+};
+
+// Order lines behind a clicked cell of the report, after the same filters
+export const getDrillDownRows = (rows: ProcessedRow[], type: ReportType, options: ReportOptions, target: DrillDownTarget): ProcessedRow[] => {
+  const filteredRows = prepareRows(rows, options);
+  const shownRows = target.rowKeys && new Set(target.rowKeys);
+
+  if (type === ReportType.AGEING) {
+    // Count and amount columns of a band hold the same documents
+    const today = startOfDay(new Date());
+    const bucket = target.column && columnKeyOf(target.column);
+    const docLines = getFirstLines(filteredRows).filter(row =>
+      (!shownRows || shownRows.has(`${row.salesRep}|${row.district}`))
+      && (!target.rowPath || target.rowPath[0] === `${row.salesRep}|${row.district}`)
+      && (!bucket || getAgeingBucket(row[options.rules.dateField], today) === bucket)
+    );
+    return getDocumentLines(filteredRows, docLines);
+  }
+
+  if (type === ReportType.CLIENT_SUMMARY) {
+    const rep = target.column && columnKeyOf(target.column);
+    const docLines = getFirstLines(filteredRows).filter(row =>
+      (!shownRows || shownRows.has(row.clientName))
+      && (!target.rowPath || target.rowPath[0] === row.clientName) && (!rep || row.salesRep === rep)
+    );
+    return getDocumentLines(filteredRows, docLines);
+  }
+
+  const config = type === ReportType.CUSTOM_PIVOT ? options.pivot : PIVOT_PRESETS[type].config;
+  return selectPivotLines(filteredRows, config, options, target);
+};
+
+// Items listed in the client detail, by quantity ordered
+const CLIENT_TOP_ITEMS = 10;
+
+// Pending documents of a client (oldest first), what they order most and where it goes
+export const getClientDetail = (rows: ProcessedRow[], options: ReportOptions, clientName: string): ClientDetail => {
+  const lines = prepareRows(rows, options).filter(row => row.clientName === clientName);
+  const lineCounts = new Map<string, number>();
+  lines.forEach(row => lineCounts.set(row.docId, (lineCounts.get(row.docId) || 0) + 1));
+
+  const documents = getFirstLines(lines)
+    .map(row => ({
+      docId: row.docId,
+      salesRep: row.salesRep,
+      status: row.status,
+      date: row[options.rules.dateField],
+      amount: documentAmount(row, options),
+      lineCount: lineCounts.get(row.docId) || 0,
+    }))
+    .sort((a, b) => (a.date?.getTime() ?? Infinity) - (b.date?.getTime() ?? Infinity));
+
+  const items = new Map<string, { itemId: string; itemDesc: string; quantity: number; docs: Set<string> }>();
+  const destinations = new Map<string, Set<string>>();
+  lines.forEach(row => {
+    if (!items.has(row.itemId)) items.set(row.itemId, { itemId: row.itemId, itemDesc: row.itemDesc, quantity: 0, docs: new Set() });
+    const item = items.get(row.itemId)!;
+    item.quantity += row.quantity;
+    item.docs.add(row.docId);
+
+    const destination = row.destination || '(sin destino)';
+    if (!destinations.has(destination)) destinations.set(destination, new Set());
+    destinations.get(destination)!.add(row.docId);
+  });
 
   return {
-    columns: salesReps,
-    data,
-    grandTotal
+    clientName,
+    amount: documents.reduce((sum, doc) => sum + doc.amount, 0),
+    currency: options.currency.reportingCurrency,
+    documents,
+    topItems: Array.from(items.values())
+      .sort((a, b) => b.quantity - a.quantity)
+      .slice(0, CLIENT_TOP_ITEMS)
+      .map(({ docs, ...item }) => ({ ...item, documents: docs.size })),
+    destinations: Array.from(destinations.entries())
+      .map(([destination, docs]) => ({ destination, documents: docs.size }))
+      .sort((a, b) => b.documents - a.documents),
   };
 };
 
-export const exportReportToExcel = (report: ReportResult, type: ReportType, filename: string) => {
+// Sheet title; amount reports state their basis (net, gross or IGV only) and currency
+export const getReportTitle = (report: ReportResult, type: ReportType): string => {
+  const amountTitle = () =>
+    `${getAmountBasisLabel(report.amountBasis!, report.taxRate ?? 0).toUpperCase()}${report.currency ? ` EN ${report.currency}` : ''}${
+      report.unconverted ? ` · ${describeUnconverted(report.unconverted).toUpperCase()}` : ''
+    }`;
+
+  switch (type) {
+    case ReportType.TIMELINE:
+      return "PEDIDOS POR PERIODO";
+    case ReportType.AGEING:
+      return `ANTIGÜEDAD DE PEDIDOS (${amountTitle()})`;
+    case ReportType.NET_AMOUNT:
+      return amountTitle();
+    case ReportType.PRODUCT_REVENUE:
+      return `VENTAS POR PRODUCTO (${amountTitle()})`;
+    case ReportType.CLIENT_SUMMARY:
+      return `PEDIDOS Y MONTOS POR CLIENTE (${amountTitle()})`;
+    case ReportType.CUSTOM_PIVOT:
+      return report.amountBasis ? amountTitle() : MEASURES[report.measure!].title;
+    default:
+      return "CANTIDAD DE PEDIDOS";
+  }
+};
+
+// Column widths are the on-screen ones (PivotTable), in px, keyed like the table's columns
+const buildReportSheet = (report: ReportResult, type: ReportType, columnWidths: { [key: string]: number }): XLSX.WorkSheet => {
   const isProductList = type === ReportType.PRODUCT_LIST;
-  const wb = XLSX.utils.book_new();
   const wsData: any[][] = [];
 
+  // Keys of the sheet columns, in order, as PivotTable names them
+  const columnKeys = isProductList
+    ? ['rowKey', 'rowLabel', 'total', ...report.columns]
+    : ['rowLabel', ...report.columns, 'total'];
+  const lastCol = columnKeys.length - 1;
+
   // Super Header Row
   const superHeaderRow = [];
   if (isProductList) {
@@ -192,8 +401,8 @@ export const exportReportToExcel = (report: ReportResult, type: ReportType, file
     superHeaderRow.push("LISTA DE PRODUCTOS", "", "", "Nombre de empleado del departamento de ventas");
   } else {
     // Title, Sales Rep Header, Empty (for Total)
-    superHeaderRow.push(type === ReportType.ORDER_COUNT ? "CANTIDAD DE PEDIDOS" : "MONTOS NETOS");
-    superHeaderRow.push("CANAL / MAYORISTAS");
+    superHeaderRow.push(getReportTitle(report, type));
+    superHeaderRow.push(report.columnTitle || "CANAL / MAYORISTAS");
   }
   wsData.push(superHeaderRow);
 
@@ -203,14 +412,24 @@ export const exportReportToExcel = (report: ReportResult, type: ReportType, file
     headerRow.push("Número de artículo", "Descripción artículo/serv.", "Total general");
     report.columns.forEach(col => headerRow.push(col));
   } else {
-    headerRow.push("DISTRITO");
+    headerRow.push(report.rowTitle || "DISTRITO");
     report.columns.forEach(col => headerRow.push(col));
     headerRow.push("Total general");
   }
   wsData.push(headerRow);
 
-  // Data Rows
-  report.data.forEach(row => {
+  // Data Rows - nested reports are written fully expanded, each group followed by its children
+  const HEADER_ROWS = wsData.length;
+  const flatRows: { row: PivotData; depth: number }[] = [];
+  const flatten = (rows: PivotData[], depth: number) => {
+    rows.forEach(row => {
+      flatRows.push({ row, depth });
+      if (row.children) flatten(row.children, depth + 1);
+    });
+  };
+  flatten(report.data, 0);
+
+  flatRows.forEach(({ row }) => {
     const rowData = [];
     if (isProductList) {
       rowData.push(row.rowKey);
@@ -220,7 +439,8 @@ export const exportReportToExcel = (report: ReportResult, type: ReportType, file
         rowData.push(row.values[col] || 0);
       });
     } else {
-      rowData.push(row.rowLabel);
+      // Rows keyed by code (e.g. items in a custom pivot) keep the code next to the description
+      rowData.push(row.rowLabel !== row.rowKey ? `${row.rowKey} - ${row.rowLabel}` : row.rowLabel);
       report.columns.forEach(col => {
         rowData.push(row.values[col] || 0);
       });
@@ -265,12 +485,78 @@ export const exportReportToExcel = (report: ReportResult, type: ReportType, file
     }
   }
 
-  XLSX.utils.book_append_sheet(wb, ws, "Reporte");
-  XLSX.writeFile(wb, filename);
+  // Same look as the on-screen table: blue headers and totals, black borders, amounts in the
+  // report currency and "-" for zeros
+  const currencyColumns = new Set(report.currencyColumns || []);
+  const isCurrency = report.measure === PivotMeasure.NET_AMOUNT;
+  const formatOf = (c: number, value: number) => {
+    const key = columnKeys[c];
+    const showsAmount = key === 'total' ? isCurrency : isCurrency || currencyColumns.has(key);
+    return showsAmount ? currencyFormat(report.currency) : numberFormat(value);
+  };
+
+  for (let c = 0; c <= lastCol; c++) {
+    styleCell(ws, 0, c, headerStyle(SUPER_HEADER_FILL));
+    styleCell(ws, 1, c, { ...headerStyle(), alignment: { horizontal: c === 0 ? 'left' : 'center', wrapText: true } });
+  }
+
+  const styleValueRow = (r: number, base: any) => {
+    for (let c = 0; c <= lastCol; c++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      const isValue = cell && cell.t === 'n';
+      styleCell(ws, r, c, { ...base, ...(isValue && { numFmt: formatOf(c, cell.v) }) });
+    }
+  };
+
+  // Subtotal rows of nested reports are bold and shaded, with their detail indented below
+  flatRows.forEach(({ row, depth }, idx) => {
+    const r = HEADER_ROWS + idx;
+    styleValueRow(r, {
+      border: BLACK_BORDER,
+      ...(row.children && { font: { bold: true }, fill: { fgColor: { rgb: GROUP_FILL } } }),
+    });
+    if (depth > 0) styleCell(ws, r, 0, { alignment: { indent: depth } });
+  });
+
+  if (!isProductList) styleValueRow(HEADER_ROWS + flatRows.length, headerStyle());
+
+  // Nested reports also get Excel's outline, so groups can be collapsed there too
+  if (flatRows.some(({ row }) => row.children)) {
+    ws['!rows'] = [];
+    ws['!outline'] = { above: true };
+    flatRows.forEach(({ depth }, idx) => {
+      ws['!rows']![HEADER_ROWS + idx] = { level: depth };
+    });
+  }
+
+  // Widths PivotTable starts with, for columns never shown on screen
+  const defaultWidth = (key: string) =>
+    isProductList
+      ? { rowKey: 120, rowLabel: 350, total: 100 }[key] || 150
+      : { rowLabel: 200, total: 120 }[key] || 150;
+  ws['!cols'] = columnKeys.map(key => ({ wpx: columnWidths[key] || defaultWidth(key) }));
+
+  // Headers and row labels stay in view; the filter covers the data rows, not the totals
+  freezePanes(ws, HEADER_ROWS, isProductList ? 2 : 1);
+  ws['!autofilter'] = {
+    ref: XLSX.utils.encode_range({ s: { r: HEADER_ROWS - 1, c: 0 }, e: { r: HEADER_ROWS - 1 + flatRows.length, c: lastCol } }),
+  };
+
+  return ws;
 };
 
-export const exportClientSearchToExcel = (rows: ProcessedRow[], filename: string) => {
+export const exportReportToExcel = (
+  report: ReportResult,
+  type: ReportType,
+  filename: string,
+  columnWidths: { [key: string]: number } = {}
+) => {
   const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildReportSheet(report, type, columnWidths), "Reporte");
+  writeStyledWorkbook(wb, filename);
+};
+
+const buildClientSearchSheet = (rows: ProcessedRow[]): XLSX.WorkSheet => {
   const wsData: any[][] = [];
 
   // Headers matching the table - Client Name first
@@ -306,6 +592,155 @@ export const exportClientSearchToExcel = (rows: ProcessedRow[], filename: string
     { wch: 20 }, // Destination
   ];
 
-  XLSX.utils.book_append_sheet(wb, ws, "Búsqueda Clientes");
+  return ws;
+};
+
+export const exportClientSearchToExcel = (rows: ProcessedRow[], filename: string) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildClientSearchSheet(rows), "Búsqueda Clientes");
+  XLSX.writeFile(wb, filename);
+};
+
+// Order lines grouped by document, under a title row
+const buildLinesSheet = (rows: ProcessedRow[], title: string): XLSX.WorkSheet => {
+  const wsData: any[][] = [];
+
+  wsData.push([title]);
+  wsData.push([
+    "Número de documento",
+    "Nombre de cliente/proveedor",
+    "Nombre de empleado",
+    "Condado",
+    "Fecha de contabilización",
+    "Número de artículo",
+    "Descripción artículo/serv.",
+    "Cantidad",
+    "Total de línea",
+    "Total del documento",
+    "Moneda",
+  ]);
+
+  // Lines of the same document stay together, in the order they were loaded
+  const docOrder = Array.from(new Set(rows.map(row => row.docId)));
+  const byDoc = new Map<string, ProcessedRow[]>(docOrder.map(docId => [docId, []]));
+  rows.forEach(row => byDoc.get(row.docId)!.push(row));
+
+  byDoc.forEach(lines => {
+    lines.forEach(row => {
+      wsData.push([
+        row.docId,
+        row.clientName,
+        row.salesRep,
+        row.district,
+        formatDate(row.postingDate),
+        row.itemId,
+        row.itemDesc,
+        row.quantity,
+        row.lineAmount ?? '',
+        row.totalAmount,
+        row.currency,
+      ]);
+    });
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData);
+  ws['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 10 } }];
+  ws['!cols'] = [
+    { wch: 15 }, // DocId
+    { wch: 30 }, // Client
+    { wch: 20 }, // Rep
+    { wch: 15 }, // District
+    { wch: 12 }, // Date
+    { wch: 15 }, // ItemId
+    { wch: 40 }, // Desc
+    { wch: 10 }, // Qty
+    { wch: 15 }, // Line total
+    { wch: 15 }, // Doc total
+    { wch: 8 }, // Currency
+  ];
+
+  return ws;
+};
+
+export const exportDrillDownToExcel = (rows: ProcessedRow[], title: string, filename: string) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildLinesSheet(rows, title), "Detalle");
   XLSX.writeFile(wb, filename);
 };
+
+const DATE_FIELD_LABELS: { [field in FilterRules['dateField']]: string } = {
+  postingDate: 'Fecha de contabilización',
+  deliveryDate: 'Fecha de entrega',
+};
+
+// Everything a reader of an export needs to know to reproduce it, as label / value pairs
+export const describeReportParameters = (
+  options: ReportOptions,
+  sourceFileName: string,
+  clientSearchTerm?: string,
+  unconverted?: UnconvertedAmounts
+): [string, string][] => {
+  const { rules, tax, currency } = options;
+  const list = (values: string[], empty: string) => (values.length > 0 ? values.join(', ') : empty);
+  const rates = currency.rates.map(r => `${r.currency} ${r.rate} desde ${r.date}`);
+
+  return [
+    ['Archivo de origen', sourceFileName],
+    ['Generado', new Date().toLocaleString('es-PE')],
+    ['Estados excluidos', list(rules.excludedStatuses, 'Ninguno')],
+    ['Grupos permitidos', list(rules.allowedGroups, 'Ninguno')],
+    ['Fecha usada en filtros y periodos', DATE_FIELD_LABELS[rules.dateField]],
+    ['Desde', rules.dateFrom || 'Sin límite'],
+    ['Hasta', rules.dateTo || 'Sin límite'],
+    ['Selección en gráficos', list((rules.chartFocus || []).map(f => f.label), 'Ninguna')],
+    ['Tasa de IGV', formatTaxRate(tax.rate)],
+    ['Base de montos', getAmountBasisLabel(options.amountBasis, tax.rate)],
+    ['Grupos exonerados', list(tax.exemptGroups, 'Ninguno')],
+    ['Clientes exonerados', list(tax.exemptClients, 'Ninguno')],
+    ['Moneda del reporte', currency.reportingCurrency],
+    ['Tipos de cambio', list(rates, 'Ninguno')],
+    ['Montos sin convertir', unconverted ? describeUnconverted(unconverted) : 'Ninguno'],
+    ...(clientSearchTerm !== undefined
+      ? [['Búsqueda de cliente', clientSearchTerm || 'Sin búsqueda (todas las líneas)'] as [string, string]]
+      : []),
+  ];
+};
+
+const buildParametersSheet = (
+  options: ReportOptions,
+  sourceFileName: string,
+  clientSearchTerm: string,
+  unconverted?: UnconvertedAmounts
+): XLSX.WorkSheet => {
+  const ws = XLSX.utils.aoa_to_sheet([['PARÁMETROS', ''], ...describeReportParameters(options, sourceFileName, clientSearchTerm, unconverted)]);
+  ws['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
+  ws['!cols'] = [{ wch: 34 }, { wch: 60 }];
+  styleCell(ws, 0, 0, headerStyle());
+  return ws;
+};
+
+// The weekly review in one file: the main reports, the client search, the lines behind the reports
+// and the parameters they were built with
+export const exportAllToExcel = (
+  lines: ProcessedRow[], // prepareRows of the dataset, built in the worker
+  reports: { type: ReportType; name: string; report: ReportResult }[],
+  clientSearchRows: ProcessedRow[],
+  options: ReportOptions,
+  sourceFileName: string,
+  clientSearchTerm: string,
+  filename: string
+) => {
+  const wb = XLSX.utils.book_new();
+  reports.forEach(({ type, name, report }) => {
+    XLSX.utils.book_append_sheet(wb, buildReportSheet(report, type, {}), name);
+  });
+  XLSX.utils.book_append_sheet(wb, buildClientSearchSheet(clientSearchRows), "Búsqueda Clientes");
+
+  XLSX.utils.book_append_sheet(wb, buildLinesSheet(lines, `LÍNEAS FILTRADAS (${lines.length})`), "Líneas");
+  XLSX.utils.book_append_sheet(
+    wb,
+    buildParametersSheet(options, sourceFileName, clientSearchTerm, getUnconvertedAmounts(lines, options.currency)),
+    "Parámetros"
+  );
+  writeStyledWorkbook(wb, filename);
+};
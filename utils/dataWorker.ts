@@ -0,0 +1,115 @@
+import { ClientDetail, ColumnFilters, ColumnMapping, DrillDownTarget, LoadProgress, ProcessedRow, RawSheet, ReportOptions, ReportResult, ReportType, ValidationIssue } from '../types';
+import { combineSheets, generateReport, getClientDetail, getDrillDownRows, prepareRows } from './dataProcessor';
+import { parseImportFile } from './fileImport';
+import { validateRows } from './validation';
+import { searchRows } from './searchQuery';
+import { filterProcessedRows } from './columnFilters';
+
+// Heavy work off the main thread: reading and parsing files, mapping rows, validating them and
+// everything computed over the whole dataset (reports, drill-downs, client detail, search).
+// The dataset is sent once and kept here, so those requests only carry the options.
+
+export type WorkerRequest =
+  | { id: number; type: 'parse'; files: File[] }
+  | { id: number; type: 'combine'; sheets: RawSheet[]; mapping: ColumnMapping }
+  | { id: number; type: 'report'; reportType: ReportType; options: ReportOptions }
+  | { id: number; type: 'validate'; rows: ProcessedRow[] }
+  | { id: number; type: 'drillDown'; reportType: ReportType; options: ReportOptions; target: DrillDownTarget }
+  | { id: number; type: 'clientDetail'; options: ReportOptions; clientName: string }
+  | { id: number; type: 'search'; query: string; columnFilters: ColumnFilters }
+  | { id: number; type: 'lines'; options: ReportOptions }
+  | { type: 'dataset'; rows: ProcessedRow[] | null; baseline: ProcessedRow[] | null };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: LoadProgress }
+  | { id: number; type: 'result'; result: RawSheet[] | ProcessedRow[] | ReportResult | IndexedIssue[] | ClientDetail }
+  | { id: number; type: 'error'; message: string };
+
+// Rows come back as copies, so issues point at them by position in the validated list
+export type IndexedIssue = Omit<ValidationIssue, 'rows'> & { rowIndexes: number[] };
+
+const ctx = self as unknown as Worker;
+
+let datasetRows: ProcessedRow[] = [];
+let datasetBaseline: ProcessedRow[] | null = null;
+
+// Reads a file in chunks so progress can be reported while it loads
+const readFile = async (file: File, onChunk: (bytes: number) => void): Promise<ArrayBuffer> => {
+  const buffer = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer.set(value, offset);
+    offset += value.length;
+    onChunk(value.length);
+  }
+  return buffer.buffer;
+};
+
+const parseFiles = async (id: number, files: File[]): Promise<RawSheet[]> => {
+  const progress: LoadProgress = { bytesRead: 0, totalBytes: files.reduce((sum, f) => sum + f.size, 0), rowsProcessed: 0 };
+  const report = () => ctx.postMessage({ id, type: 'progress', progress: { ...progress } } as WorkerResponse);
+
+  const sheets: RawSheet[] = [];
+  for (const file of files) {
+    const data = await readFile(file, bytes => {
+      progress.bytesRead += bytes;
+      report();
+    });
+    sheets.push(...parseImportFile(data, file.name, rows => {
+      progress.rowsProcessed += rows;
+      report();
+    }));
+  }
+  return sheets;
+};
+
+const validate = (rows: ProcessedRow[]): IndexedIssue[] => {
+  const positions = new Map(rows.map((row, idx) => [row, idx]));
+  return validateRows(rows).map(({ rows: issueRows, ...issue }) => ({
+    ...issue,
+    rowIndexes: issueRows.map(row => positions.get(row)!),
+  }));
+};
+
+const handleRequest = async (request: Exclude<WorkerRequest, { type: 'dataset' }>) => {
+  switch (request.type) {
+    case 'parse':
+      return parseFiles(request.id, request.files);
+    case 'combine':
+      // Nothing is read from disk at this stage, only rows are counted
+      return combineSheets(request.sheets, request.mapping, rowsProcessed => {
+        ctx.postMessage({ id: request.id, type: 'progress', progress: { bytesRead: 0, totalBytes: 0, rowsProcessed } } as WorkerResponse);
+      });
+    case 'report':
+      return generateReport(datasetRows, request.reportType, { ...request.options, baseline: datasetBaseline });
+    case 'validate':
+      return validate(request.rows);
+    case 'drillDown':
+      return getDrillDownRows(datasetRows, request.reportType, request.options, request.target);
+    case 'clientDetail':
+      return getClientDetail(datasetRows, request.options, request.clientName);
+    case 'search':
+      return filterProcessedRows(searchRows(datasetRows, request.query), request.columnFilters);
+    case 'lines':
+      return prepareRows(datasetRows, request.options);
+  }
+};
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'dataset') {
+    datasetRows = request.rows || [];
+    datasetBaseline = request.baseline;
+    return;
+  }
+
+  try {
+    const result = await handleRequest(request);
+    ctx.postMessage({ id: request.id, type: 'result', result } as WorkerResponse);
+  } catch (err) {
+    ctx.postMessage({ id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) } as WorkerResponse);
+  }
+};
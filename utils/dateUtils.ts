@@ -0,0 +1,75 @@
+import * as XLSX from 'xlsx-js-style';
+import { TimeGranularity } from '../types';
+
+// Accepts Excel serials, Date objects, dd/mm/yyyy (or dd-mm-yyyy) and ISO yyyy-mm-dd text
+export const parseDateValue = (value: any): Date | null => {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? new Date(parsed.y, parsed.m - 1, parsed.d) : null;
+  }
+
+  const text = String(value).trim();
+
+  // dd/mm/yyyy - the format SAP uses for es-PE exports
+  let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return buildDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // Numeric text coming from CSV-like cells
+  if (/^\d+(\.\d+)?$/.test(text)) return parseDateValue(Number(text));
+
+  return null;
+};
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  // Reject overflowed values such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// yyyy-mm-dd in local time (comparable as text, usable in <input type="date">)
+export const toIsoDate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const formatDate = (date: Date | null): string => {
+  return date ? `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}` : '';
+};
+
+// ISO 8601 week: weeks start on Monday and week 1 contains the first Thursday
+const getIsoWeek = (date: Date): { year: number; week: number } => {
+  const target = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayNum = (target.getDay() + 6) % 7;
+  target.setDate(target.getDate() - dayNum + 3);
+  const firstThursday = new Date(target.getFullYear(), 0, 4);
+  const week = 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+  return { year: target.getFullYear(), week };
+};
+
+export const NO_DATE_PERIOD = 'Sin fecha';
+
+// Column key for period reports; keys sort chronologically as plain text
+export const getPeriodKey = (date: Date | null, granularity: TimeGranularity): string => {
+  if (!date) return NO_DATE_PERIOD;
+  if (granularity === TimeGranularity.WEEK) {
+    const { year, week } = getIsoWeek(date);
+    return `${year}-S${pad(week)}`;
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+};
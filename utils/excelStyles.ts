@@ -0,0 +1,85 @@
+import * as XLSX from 'xlsx-js-style';
+
+// Colours of the on-screen pivot (PivotTable), so downloads look like what was on screen
+export const SUPER_HEADER_FILL = 'B4C6E7';
+export const HEADER_FILL = 'CFE2F3';
+export const GROUP_FILL = 'EEF4FB';
+
+const THIN_BLACK = { style: 'thin', color: { rgb: '000000' } };
+export const BLACK_BORDER = { top: THIN_BLACK, bottom: THIN_BLACK, left: THIN_BLACK, right: THIN_BLACK };
+
+export const headerStyle = (fill: string = HEADER_FILL) => ({
+  font: { bold: true },
+  fill: { fgColor: { rgb: fill } },
+  border: BLACK_BORDER,
+  alignment: { vertical: 'center' },
+});
+
+// Number formats; the third section shows zeros as "-", as the pivot does
+const CURRENCY_SYMBOLS: { [currency: string]: string } = { PEN: 'S/', USD: 'US$', EUR: '€' };
+
+export const currencyFormat = (currency: string = 'PEN'): string => {
+  const symbol = `"${CURRENCY_SYMBOLS[currency] || currency}" `;
+  return `${symbol}#,##0.00;-${symbol}#,##0.00;"-"`;
+};
+
+export const COUNT_FORMAT = '#,##0;-#,##0;"-"';
+export const DECIMAL_FORMAT = '#,##0.00;-#,##0.00;"-"';
+
+// Counts stay whole; quantities with decimals keep two
+export const numberFormat = (value: number): string => (Number.isInteger(value) ? COUNT_FORMAT : DECIMAL_FORMAT);
+
+// Merges a style into whatever the cell already has
+export const styleCell = (ws: XLSX.WorkSheet, r: number, c: number, style: any) => {
+  const address = XLSX.utils.encode_cell({ r, c });
+  if (!ws[address]) ws[address] = { t: 's', v: '' };
+  const current = ws[address].s || {};
+  ws[address].s = { ...current, ...style, font: { ...current.font, ...style.font }, alignment: { ...current.alignment, ...style.alignment } };
+};
+
+// Rows above and columns left of the first scrolling cell, written by writeStyledWorkbook
+export const freezePanes = (ws: XLSX.WorkSheet, rows: number, cols: number) => {
+  ws['!freeze'] = { rows, cols };
+};
+
+// The pane element Excel and LibreOffice read frozen rows and columns from
+const paneXml = ({ rows, cols }: { rows: number; cols: number }): string => {
+  const activePane = rows && cols ? 'bottomRight' : rows ? 'bottomLeft' : 'topRight';
+  const split = `${cols ? ` xSplit="${cols}"` : ''}${rows ? ` ySplit="${rows}"` : ''}`;
+  const topLeftCell = XLSX.utils.encode_cell({ r: rows, c: cols });
+  return `<pane${split} topLeftCell="${topLeftCell}" activePane="${activePane}" state="frozen"/><selection pane="${activePane}"/>`;
+};
+
+// Writes the workbook and downloads it. SheetJS community edition does not write frozen panes,
+// so they are added to the sheet XML of the finished file.
+export const writeStyledWorkbook = (wb: XLSX.WorkBook, filename: string) => {
+  const frozen = wb.SheetNames.map(name => wb.Sheets[name]['!freeze']);
+  if (!frozen.some(Boolean)) {
+    XLSX.writeFile(wb, filename);
+    return;
+  }
+
+  const data = XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
+  const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  frozen.forEach((panes, idx) => {
+    if (!panes) return;
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${idx + 1}.xml`);
+    if (!entry) return;
+    const xml = new TextDecoder().decode(entry.content).replace(
+      /<sheetView([^>]*)\/>/,
+      (_, attributes) => `<sheetView${attributes}>${paneXml(panes)}</sheetView>`
+    );
+    entry.content = new TextEncoder().encode(xml);
+    entry.size = entry.content.length;
+  });
+
+  const blob = new Blob([XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' })], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,229 @@
+import * as XLSX from 'xlsx-js-style';
+import { RawRow, RawSheet, TextFormat } from '../types';
+
+// Everything the upload inputs accept: spreadsheets go through SheetJS, delimited text is read here
+export const ACCEPTED_EXTENSIONS = '.xlsx, .xls, .ods, .csv, .tsv, .txt';
+
+const TEXT_EXTENSIONS = ['csv', 'tsv', 'txt'];
+const DELIMITER_CANDIDATES = [';', ',', '\t', '|'];
+// Enough lines to see past a short header block without scanning the whole file
+const SAMPLE_LINES = 50;
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+// Raw rows of every sheet (or of the single table in a text file), ready for column mapping
+export const parseImportFile = (data: ArrayBuffer, fileName: string, onSheetDone?: (rows: number) => void): RawSheet[] => {
+  const extension = getExtension(fileName);
+  if (TEXT_EXTENSIONS.includes(extension)) {
+    const sheet = parseDelimitedText(data, fileName, extension === 'tsv' ? '\t' : undefined);
+    onSheetDone?.(sheet.rows.length);
+    return [sheet];
+  }
+  return parseWorkbook(data, fileName, onSheetDone);
+};
+
+// Reads the raw rows and headers of every sheet; mapping to ProcessedRow happens once the user confirms the columns
+const parseWorkbook = (data: ArrayBuffer, fileName: string, onSheetDone?: (rows: number) => void): RawSheet[] => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  return workbook.SheetNames.map(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    const headerRow = (XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 })[0] || []) as any[];
+    const headers = headerRow.filter(h => h !== undefined && h !== null && String(h).trim() !== '').map(String);
+    const rows = XLSX.utils.sheet_to_json<RawRow>(worksheet);
+    // SheetJS keeps the 0-based sheet row as a hidden __rowNum__ property, which is lost when rows are copied
+    const rowNumbers = rows.map((row, idx) => (row.__rowNum__ !== undefined ? row.__rowNum__ + 1 : idx + 2));
+    onSheetDone?.(rows.length);
+    return { sourceFile: fileName, sourceSheet: sheetName, headers, rows, rowNumbers };
+  });
+};
+
+// ERP exports come either as UTF-8 (with or without BOM) or in the Windows ANSI code page
+const decodeText = (data: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    // Invalid UTF-8 sequences mean single-byte accents such as "Ñ" in Windows-1252
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+// Delimiters found outside quotes in a single line
+const countDelimiters = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+// The candidate that splits the header and most sample lines into the same number of fields
+const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '').slice(0, SAMPLE_LINES);
+  if (lines.length === 0) return ',';
+
+  let best = { delimiter: ',', consistent: -1, fields: 0 };
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const headerCount = countDelimiters(lines[0], delimiter);
+    if (headerCount === 0) return;
+    const consistent = lines.filter(l => countDelimiters(l, delimiter) === headerCount).length;
+    if (consistent > best.consistent || (consistent === best.consistent && headerCount > best.fields)) {
+      best = { delimiter, consistent, fields: headerCount };
+    }
+  });
+  return best.delimiter;
+};
+
+// RFC 4180 records: quoted fields may contain delimiters, doubled quotes and line breaks.
+// Each record comes with the physical line it starts on, which is what the user sees in an editor.
+const splitRecords = (text: string, delimiter: string): { records: string[][]; startLines: number[] } => {
+  const records: string[][] = [];
+  const startLines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      // Line breaks inside a quoted field still move to the next physical line
+      if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      startLines.push(recordLine);
+      line++;
+      recordLine = line;
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+    startLines.push(recordLine);
+  }
+  return { records, startLines };
+};
+
+const NUMBER_LIKE = /^[-+]?[\d.,]*\d$/;
+
+// Votes on the numeric cells: the last separator of "1.234,56" is the decimal one, and a separator
+// followed by other than three digits cannot be a thousands separator
+const detectDecimalSeparator = (records: string[][], delimiter: string): '.' | ',' => {
+  let commaVotes = 0;
+  let dotVotes = 0;
+
+  records.slice(1, SAMPLE_LINES * 20).forEach(record => {
+    record.forEach(cell => {
+      const text = cell.trim();
+      if (!NUMBER_LIKE.test(text)) return;
+      const lastComma = text.lastIndexOf(',');
+      const lastDot = text.lastIndexOf('.');
+      if (lastComma >= 0 && lastDot >= 0) {
+        if (lastComma > lastDot) commaVotes++;
+        else dotVotes++;
+        return;
+      }
+      const separator = lastComma >= 0 ? ',' : lastDot >= 0 ? '.' : null;
+      if (!separator) return;
+      const occurrences = text.split(separator).length - 1;
+      const decimals = text.length - text.lastIndexOf(separator) - 1;
+      if (occurrences > 1) {
+        // Only a thousands separator can repeat
+        if (separator === ',') dotVotes++;
+        else commaVotes++;
+      } else if (decimals !== 3) {
+        if (separator === ',') commaVotes++;
+        else dotVotes++;
+      }
+    });
+  });
+
+  if (commaVotes !== dotVotes) return commaVotes > dotVotes ? ',' : '.';
+  // Semicolon-separated files come from locales that write decimals with a comma
+  return delimiter === ';' ? ',' : '.';
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Converts the numeric cells of a text file; codes with leading zeros ("00125") stay as text
+const createNumberReader = (decimalSeparator: '.' | ',') => {
+  const decimal = escapeRegExp(decimalSeparator);
+  const thousands = escapeRegExp(decimalSeparator === ',' ? '.' : ',');
+  const pattern = new RegExp(`^[-+]?(\\d{1,3}(${thousands}\\d{3})+|\\d+)(${decimal}\\d+)?$`);
+
+  return (cell: string): string | number => {
+    const text = cell.trim();
+    if (!pattern.test(text) || /^[-+]?0\d/.test(text)) return cell;
+    return Number(text.split(decimalSeparator === ',' ? '.' : ',').join('').replace(decimalSeparator, '.'));
+  };
+};
+
+// Turns a CSV/TSV export into the same shape SheetJS produces for a worksheet
+const parseDelimitedText = (data: ArrayBuffer, fileName: string, forcedDelimiter?: string): RawSheet => {
+  const { text, encoding } = decodeText(data);
+  const delimiter = forcedDelimiter || detectDelimiter(text);
+  const { records, startLines } = splitRecords(text, delimiter);
+  const decimalSeparator = detectDecimalSeparator(records, delimiter);
+  const readCell = createNumberReader(decimalSeparator);
+
+  // Repeated headers get a suffix, as SheetJS does, so no column overwrites another
+  const seen = new Map<string, number>();
+  const columnKeys = (records[0] || []).map(header => {
+    const name = header.trim();
+    if (!name) return null;
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count}`;
+  });
+
+  const rows: RawRow[] = [];
+  const rowNumbers: number[] = [];
+  records.slice(1).forEach((record, idx) => {
+    if (record.every(cell => cell.trim() === '')) return;
+    const row: RawRow = {};
+    record.forEach((cell, col) => {
+      const key = columnKeys[col];
+      // Empty cells are left out, like SheetJS does, so the mapping defaults apply
+      if (key && cell.trim() !== '') row[key] = readCell(cell);
+    });
+    rows.push(row);
+    rowNumbers.push(startLines[idx + 1]);
+  });
+
+  const textFormat: TextFormat = { encoding, delimiter, decimalSeparator };
+  return {
+    sourceFile: fileName,
+    sourceSheet: getExtension(fileName).toUpperCase(),
+    headers: columnKeys.filter((k): k is string => k !== null),
+    rows,
+    rowNumbers,
+    textFormat,
+  };
+};
+
+// Short description of how a text file was read, for the import dialogs
+export const describeTextFormat = (format: TextFormat): string => {
+  const delimiter = format.delimiter === '\t' ? 'tabulación' : `"${format.delimiter}"`;
+  return `${format.encoding}, separador ${delimiter}, decimales con "${format.decimalSeparator}"`;
+};
@@ -0,0 +1,76 @@
+// Reads amounts and quantities typed as text in the source files: "S/ 1,234.50", "1.234,50",
+// "(250.00)", "75-" (SAP trailing minus) or "12 UND". Returns null when the text is not a number.
+
+const CURRENCY_PATTERN = /S\/\.?|US\$|\$|€|\b(?:PEN|USD|EUR|SOLES?)\b/gi;
+// Unit suffixes such as "UND", "kg" or "cajas" carry no value of their own
+const UNIT_PATTERN = /^[a-zñáéíóú.]+$/i;
+
+export const parseNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.replace(CURRENCY_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  let negative = false;
+
+  // Accounting style: (1,234.50)
+  const parenthesised = text.match(/^\((.*)\)$/);
+  if (parenthesised) {
+    negative = true;
+    text = parenthesised[1].trim();
+  }
+
+  // Number core from its first to its last digit, with the separators in between
+  const match = text.match(/^(.*?)(\d(?:[\d.,' ]*\d)?)(.*)$/);
+  if (!match) return null;
+  const prefix = match[1].trim();
+  let suffix = match[3].trim();
+
+  if (prefix === '-') negative = !negative;
+  else if (prefix !== '' && prefix !== '+') return null;
+
+  if (suffix.startsWith('-')) {
+    negative = !negative;
+    suffix = suffix.slice(1).trim();
+  }
+  if (suffix !== '' && !UNIT_PATTERN.test(suffix)) return null;
+
+  const digits = normaliseSeparators(match[2].replace(/[' ]/g, ''));
+  if (digits === null) return null;
+  const number = Number(digits);
+  if (!Number.isFinite(number)) return null;
+  return negative ? -number : number;
+};
+
+// Decides which of "." and "," is the decimal separator and returns plain "1234.5" text
+const normaliseSeparators = (core: string): string | null => {
+  const lastComma = core.lastIndexOf(',');
+  const lastDot = core.lastIndexOf('.');
+
+  let decimal: ',' | '.' | null;
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both present: the last one separates the decimals
+    decimal = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma < 0 && lastDot < 0) {
+    decimal = null;
+  } else {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = core.split(separator);
+    const isThousands =
+      // Only a thousands separator repeats: 1.234.567
+      parts.length > 2 ||
+      // 1,234 reads as thousands, but 0,500 and 12,50 are decimals
+      (parts[1].length === 3 && parts[0] !== '0' && parts[0].length <= 3);
+    decimal = isThousands ? null : separator;
+  }
+
+  const thousands = decimal === ',' ? '.' : decimal === '.' ? ',' : /[.,]/.exec(core)?.[0];
+  const integerPart = decimal ? core.slice(0, core.lastIndexOf(decimal)) : core;
+  const decimalPart = decimal ? core.slice(core.lastIndexOf(decimal) + 1) : '';
+
+  const groups = thousands ? integerPart.split(thousands) : [integerPart];
+  // Thousands groups after the first must have exactly three digits
+  if (groups.some((g, i) => !/^\d+$/.test(g) || (i > 0 && g.length !== 3))) return null;
+  if (decimalPart && !/^\d+$/.test(decimalPart)) return null;
+
+  return decimalPart ? `${groups.join('')}.${decimalPart}` : groups.join('');
+};
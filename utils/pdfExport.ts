@@ -0,0 +1,131 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { PivotData, PivotMeasure, ReportResult, ReportType } from '../types';
+import { getReportTitle } from './dataProcessor';
+import { formatCurrency } from './currency';
+
+export interface PdfSection {
+  name: string; // Tab label, shown as the page title
+  type: ReportType;
+  report: ReportResult;
+}
+
+// A4 landscape, in mm
+const MARGIN = 10;
+const FOOTER_HEIGHT = 8;
+
+// Same colours as the on-screen pivot and the Excel export
+const HEADER_FILL: [number, number, number] = [207, 226, 243]; // #CFE2F3
+const GROUP_FILL: [number, number, number] = [238, 244, 251]; // #EEF4FB
+
+const formatNumber = (val: number) => new Intl.NumberFormat('es-PE').format(val);
+
+// Cell texts of one report, laid out like the Excel export: header, rows fully expanded, totals
+const buildTable = (report: ReportResult, type: ReportType) => {
+  const isProductList = type === ReportType.PRODUCT_LIST;
+  const isCurrency = report.measure === PivotMeasure.NET_AMOUNT;
+  const currencyColumns = new Set(report.currencyColumns || []);
+
+  const format = (val: number | undefined, currency: boolean) => {
+    if (!val) return '-';
+    return currency ? formatCurrency(val, report.currency) : formatNumber(val);
+  };
+  const formatColumn = (val: number | undefined, col: string) => format(val, isCurrency || currencyColumns.has(col));
+
+  const head = isProductList
+    ? ['Número de artículo', 'Descripción artículo/serv.', 'Total general', ...report.columns]
+    : [report.rowTitle || 'DISTRITO', ...report.columns, 'Total general'];
+
+  const body: RowInput[] = [];
+  const addRows = (rows: PivotData[], depth: number) => {
+    rows.forEach(row => {
+      const style = row.children ? { fontStyle: 'bold' as const, fillColor: GROUP_FILL } : {};
+      const cells: string[] = isProductList
+        ? [row.rowKey, row.rowLabel || '', format(row.total, isCurrency), ...report.columns.map(col => formatColumn(row.values[col], col))]
+        : [
+            `${'   '.repeat(depth)}${row.rowLabel !== row.rowKey ? `${row.rowKey} - ${row.rowLabel}` : row.rowLabel}`,
+            ...report.columns.map(col => formatColumn(row.values[col], col)),
+            format(row.total, isCurrency),
+          ];
+      body.push(cells.map(content => ({ content, styles: style })));
+      if (row.children) addRows(row.children, depth + 1);
+    });
+  };
+  addRows(report.data, 0);
+
+  const foot = isProductList
+    ? []
+    : [[
+        'TOTALES',
+        ...report.columns.map(col => formatColumn(report.data.reduce((sum, row) => sum + (row.values[col] || 0), 0), col)),
+        format(report.grandTotal, isCurrency),
+      ]];
+
+  return { head: [head], body, foot, labelColumns: isProductList ? [0, 1] : [0] };
+};
+
+// One or more reports in a landscape PDF. Every page carries the report title and the applied
+// parameters on top and the page number below; the header row and the label columns repeat
+// on every page, including the pages that hold the columns that did not fit.
+export const exportReportsToPdf = (sections: PdfSection[], parameters: [string, string][], filename: string) => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(7);
+  const parameterLines: string[] = doc.splitTextToSize(
+    parameters.map(([label, value]) => `${label}: ${value}`).join('   ·   '),
+    pageWidth - 2 * MARGIN
+  );
+  const headerHeight = 14 + parameterLines.length * 3;
+
+  sections.forEach((section, idx) => {
+    if (idx > 0) doc.addPage();
+    const { head, body, foot, labelColumns } = buildTable(section.report, section.type);
+    const subtitle = getReportTitle(section.report, section.type);
+
+    autoTable(doc, {
+      head,
+      body,
+      foot,
+      theme: 'grid',
+      margin: { top: MARGIN + headerHeight, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT, left: MARGIN },
+      showHead: 'everyPage',
+      showFoot: 'lastPage',
+      horizontalPageBreak: true,
+      horizontalPageBreakRepeat: labelColumns,
+      styles: { fontSize: 7, cellPadding: 1.2, lineColor: 0, lineWidth: 0.1, textColor: 0, overflow: 'linebreak' },
+      headStyles: { fillColor: HEADER_FILL, textColor: 0, fontStyle: 'bold' },
+      footStyles: { fillColor: HEADER_FILL, textColor: 0, fontStyle: 'bold' },
+      columnStyles: Object.fromEntries(
+        head[0].map((_, col) => [col, labelColumns.includes(col) ? { cellWidth: col === 1 ? 60 : 45 } : { halign: 'right' as const }])
+      ),
+      didDrawPage: () => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.text(section.name, MARGIN, MARGIN + 4);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.text(subtitle, MARGIN, MARGIN + 9);
+        doc.setFontSize(7);
+        doc.setTextColor(90);
+        doc.text(parameterLines, MARGIN, MARGIN + 13);
+        doc.setTextColor(0);
+      },
+    });
+  });
+
+  // Page numbers go in once every table is drawn, when the page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setTextColor(90);
+    doc.text('Análisis de Pedidos', MARGIN, pageHeight - MARGIN);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN, { align: 'right' });
+  }
+  doc.save(filename);
+};
+
+export const exportReportToPdf = (section: PdfSection, parameters: [string, string][], filename: string) =>
+  exportReportsToPdf([section], parameters, filename);
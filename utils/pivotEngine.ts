@@ -0,0 +1,231 @@
+import { DrillDownTarget, PivotConfig, PivotData, PivotDimension, PivotMeasure, PivotPreset, ProcessedRow, ReportOptions, ReportResult, ReportType, TimeGranularity } from '../types';
+import { applyAmountBasis } from './taxSettings';
+import { getPeriodKey } from './dateUtils';
+import { isConverted } from './currency';
+
+interface DimensionDefinition {
+  label: string; // Shown in the pivot builder
+  header: string; // Shown over the row/column headers of the table
+  keyOf: (row: ProcessedRow, options: ReportOptions) => string;
+  labelOf?: (row: ProcessedRow) => string; // Row description when it differs from the key
+}
+
+export const DIMENSIONS: { [dimension in PivotDimension]: DimensionDefinition } = {
+  district: { label: 'Distrito (Condado)', header: 'DISTRITO', keyOf: row => row.district },
+  salesRep: { label: 'Vendedor', header: 'CANAL / MAYORISTAS', keyOf: row => row.salesRep },
+  clientName: { label: 'Cliente', header: 'CLIENTE', keyOf: row => row.clientName },
+  destination: { label: 'Destino', header: 'DESTINO', keyOf: row => row.destination || '(sin destino)' },
+  groupName: { label: 'Grupo', header: 'GRUPO', keyOf: row => row.groupName },
+  itemId: { label: 'Artículo', header: 'ARTÍCULO', keyOf: row => row.itemId, labelOf: row => row.itemDesc },
+  status: { label: 'Estado', header: 'ESTADO', keyOf: row => row.status },
+  period: {
+    label: 'Periodo (mes/semana)',
+    header: 'PERIODO',
+    keyOf: (row, options) => getPeriodKey(row[options.rules.dateField], options.timeGranularity),
+  },
+};
+
+export const MEASURES: { [measure in PivotMeasure]: { label: string; title: string } } = {
+  [PivotMeasure.DISTINCT_DOCS]: { label: 'Pedidos distintos', title: 'CANTIDAD DE PEDIDOS' },
+  [PivotMeasure.NET_AMOUNT]: { label: 'Monto (repartido por línea)', title: 'MONTOS' },
+  [PivotMeasure.SUM_QUANTITY]: { label: 'Suma de cantidades', title: 'CANTIDADES' },
+  [PivotMeasure.DISTINCT_CLIENTS]: { label: 'Clientes distintos', title: 'CANTIDAD DE CLIENTES' },
+};
+
+// The fixed tabs are presets of the engine
+export const PIVOT_PRESETS: { [type: string]: PivotPreset } = {
+  [ReportType.ORDER_COUNT]: {
+    name: 'Cantidad de Pedidos',
+    config: { rowDimension: 'district', columnDimension: 'salesRep', measure: PivotMeasure.DISTINCT_DOCS },
+  },
+  [ReportType.NET_AMOUNT]: {
+    name: 'Montos Netos',
+    config: { rowDimension: 'district', columnDimension: 'salesRep', measure: PivotMeasure.NET_AMOUNT },
+  },
+  [ReportType.PRODUCT_LIST]: {
+    name: 'Lista de Productos',
+    config: { rowDimension: 'itemId', columnDimension: 'salesRep', measure: PivotMeasure.SUM_QUANTITY },
+  },
+  [ReportType.PRODUCT_REVENUE]: {
+    name: 'Ventas por Producto',
+    config: { rowDimension: 'itemId', columnDimension: 'salesRep', measure: PivotMeasure.NET_AMOUNT },
+  },
+  [ReportType.TIMELINE]: {
+    name: 'Evolución por Periodo',
+    config: { rowDimension: 'district', columnDimension: 'period', measure: PivotMeasure.DISTINCT_DOCS },
+  },
+};
+
+// First line of every document, where document-level amounts are attributed
+export const getFirstLines = (rows: ProcessedRow[]): ProcessedRow[] => {
+  const processedDocs = new Set<string>();
+  return rows.filter(row => {
+    if (processedDocs.has(row.docId)) return false;
+    processedDocs.add(row.docId);
+    return true;
+  });
+};
+
+// Document total on the report's basis; documents without an exchange rate add nothing
+export const documentAmount = (row: ProcessedRow, options: ReportOptions): number =>
+  isConverted(row, options.currency) ? applyAmountBasis(row.totalAmount, row, options.tax, options.amountBasis) : 0;
+
+// Every line of the documents the given lines belong to
+export const getDocumentLines = (rows: ProcessedRow[], docLines: ProcessedRow[]): ProcessedRow[] => {
+  const docIds = new Set(docLines.map(row => row.docId));
+  return rows.filter(row => docIds.has(row.docId));
+};
+
+// Share of its document's total carried by each line. When every line of a document has a line amount,
+// the total is split in proportion to them (so discounts, freight and IGV are spread as well); otherwise
+// the whole total sits on the document's first line, as the per-document reports always did.
+export const getLineShares = (rows: ProcessedRow[]): Map<ProcessedRow, number> => {
+  const byDoc = new Map<string, ProcessedRow[]>();
+  rows.forEach(row => {
+    if (!byDoc.has(row.docId)) byDoc.set(row.docId, []);
+    byDoc.get(row.docId)!.push(row);
+  });
+
+  const shares = new Map<ProcessedRow, number>();
+  byDoc.forEach(lines => {
+    const amounts = lines.map(line => line.lineAmount);
+    const lineSum = amounts.reduce<number>((sum, amount) => sum + (amount || 0), 0);
+    // Rows saved before line amounts were read have none at all
+    if (amounts.every(amount => typeof amount === 'number') && lineSum !== 0) {
+      lines.forEach((line, idx) => shares.set(line, (line.totalAmount * amounts[idx]!) / lineSum));
+    } else {
+      shares.set(lines[0], lines[0].totalAmount);
+    }
+  });
+  return shares;
+};
+
+// True when at least one document could be split across its lines
+export const hasLineAmounts = (rows: ProcessedRow[]): boolean =>
+  rows.some(row => typeof row.lineAmount === 'number');
+
+const isDistinctMeasure = (measure: PivotMeasure) =>
+  measure === PivotMeasure.DISTINCT_DOCS || measure === PivotMeasure.DISTINCT_CLIENTS;
+
+export const buildPivot = (filteredRows: ProcessedRow[], config: PivotConfig, options: ReportOptions): ReportResult => {
+  const rowDims = [config.rowDimension, ...(config.nestedDimensions || [])].map(d => DIMENSIONS[d]);
+  const colDim = DIMENSIONS[config.columnDimension];
+  const { measure } = config;
+
+  // Column of every line, computed once
+  const colKeys = new Map<ProcessedRow, string>();
+  filteredRows.forEach(row => colKeys.set(row, colDim.keyOf(row, options)));
+
+  // Additive contribution of each line. Each Document Total is counted ONCE, split over its lines
+  // or on its first line, so any grouping of lines (cells, subtotals, totals) adds up consistently.
+  const contribution = new Map<ProcessedRow, number>();
+  if (measure === PivotMeasure.NET_AMOUNT) {
+    getLineShares(filteredRows).forEach((share, row) => {
+      if (!isConverted(row, options.currency)) return;
+      contribution.set(row, applyAmountBasis(share, row, options.tax, options.amountBasis));
+    });
+  } else if (measure === PivotMeasure.SUM_QUANTITY) {
+    filteredRows.forEach(row => contribution.set(row, row.quantity));
+  }
+
+  // Aggregates a group of lines into one pivot row
+  const aggregate = (rows: ProcessedRow[], entry: PivotData) => {
+    if (isDistinctMeasure(measure)) {
+      const idOf = (row: ProcessedRow) => (measure === PivotMeasure.DISTINCT_DOCS ? row.docId : row.clientName);
+      const cells: { [col: string]: Set<string> } = {};
+      const all = new Set<string>();
+      rows.forEach(row => {
+        const col = colKeys.get(row)!;
+        if (!cells[col]) cells[col] = new Set();
+        cells[col].add(idOf(row));
+        all.add(idOf(row));
+      });
+      Object.keys(cells).forEach(col => {
+        entry.values[col] = cells[col].size;
+      });
+      entry.total = all.size;
+    } else {
+      rows.forEach(row => {
+        const value = contribution.get(row);
+        if (value === undefined) return;
+        const col = colKeys.get(row)!;
+        entry.values[col] = (entry.values[col] || 0) + value;
+        entry.total += value;
+      });
+    }
+  };
+
+  // Groups lines by the dimension of this level and recurses into the next one
+  const buildLevel = (rows: ProcessedRow[], level: number): PivotData[] => {
+    const dim = rowDims[level];
+    const groups = new Map<string, { label: string; rows: ProcessedRow[] }>();
+    rows.forEach(row => {
+      const key = dim.keyOf(row, options);
+      if (!groups.has(key)) groups.set(key, { label: dim.labelOf ? dim.labelOf(row) : key, rows: [] });
+      groups.get(key)!.rows.push(row);
+    });
+
+    const entries: PivotData[] = [];
+    groups.forEach((group, rowKey) => {
+      const entry: PivotData = { rowKey, rowLabel: group.label, total: 0, values: {} };
+      aggregate(group.rows, entry);
+      if (level < rowDims.length - 1) {
+        entry.children = buildLevel(group.rows, level + 1);
+      }
+      entries.push(entry);
+    });
+    return entries.sort((a, b) => a.rowLabel!.localeCompare(b.rowLabel!));
+  };
+
+  const data = buildLevel(filteredRows, 0);
+  const grandTotal = data.reduce((acc, curr) => acc + curr.total, 0);
+  const periodHeader = options.timeGranularity === TimeGranularity.WEEK ? 'SEMANA' : 'MES';
+  const headerOf = (dimension: PivotDimension) => (dimension === 'period' ? periodHeader : DIMENSIONS[dimension].header);
+
+  return {
+    columns: Array.from(new Set(colKeys.values())).sort(),
+    data,
+    grandTotal,
+    measure,
+    rowTitle: [config.rowDimension, ...(config.nestedDimensions || [])].map(headerOf).join(' / '),
+    columnTitle: headerOf(config.columnDimension),
+    ...(measure === PivotMeasure.NET_AMOUNT && { amountBasis: options.amountBasis, taxRate: options.tax.rate }),
+  };
+};
+
+// Lines behind a cell, row total or column total of a pivot. A document total that sits whole on the
+// first line brings every line of its document; a split one only the lines in the cell.
+export const selectPivotLines = (filteredRows: ProcessedRow[], config: PivotConfig, options: ReportOptions, target: DrillDownTarget): ProcessedRow[] => {
+  const rowDims = [config.rowDimension, ...(config.nestedDimensions || [])].map(d => DIMENSIONS[d]);
+  const colDim = DIMENSIONS[config.columnDimension];
+
+  const shownRows = target.rowKeys && new Set(target.rowKeys);
+
+  const inCell = (row: ProcessedRow) =>
+    (!shownRows || shownRows.has(rowDims[0].keyOf(row, options)))
+    && (!target.rowPath || target.rowPath.every((key, level) => rowDims[level].keyOf(row, options) === key))
+    && (target.column === null || colDim.keyOf(row, options) === target.column);
+
+  if (config.measure === PivotMeasure.NET_AMOUNT) {
+    const shares = getLineShares(filteredRows);
+    // A line without a share means its document's total sits whole on the first line
+    const wholeDocs = new Set(filteredRows.filter(row => !shares.has(row)).map(row => row.docId));
+    const docsInCell = new Set(filteredRows.filter(row => shares.has(row) && inCell(row)).map(row => row.docId));
+    return filteredRows.filter(row => docsInCell.has(row.docId) && (wholeDocs.has(row.docId) || inCell(row)));
+  }
+  return filteredRows.filter(inCell);
+};
+
+const STORAGE_KEY = 'analisis-pedidos:pivot-presets';
+
+export const loadSavedPresets = (): PivotPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: PivotPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,196 @@
+import { ProcessedRow } from '../types';
+
+// Text fields a query term can target
+export type SearchableField = 'clientName' | 'itemId' | 'itemDesc' | 'destination' | 'district' | 'salesRep' | 'docId' | 'groupName' | 'status';
+
+// Prefixes accepted before ":" (compared without accents, so "artículo:" also works)
+const FIELD_PREFIXES: { [prefix: string]: SearchableField[] } = {
+  cliente: ['clientName'],
+  item: ['itemId', 'itemDesc'],
+  articulo: ['itemId', 'itemDesc'],
+  producto: ['itemId', 'itemDesc'],
+  codigo: ['itemId'],
+  desc: ['itemDesc'],
+  destino: ['destination'],
+  condado: ['district'],
+  distrito: ['district'],
+  vendedor: ['salesRep'],
+  doc: ['docId'],
+  pedido: ['docId'],
+  grupo: ['groupName'],
+  estado: ['status'],
+};
+
+// Terms without a prefix search the client, as the plain search always did
+const DEFAULT_FIELDS: SearchableField[] = ['clientName'];
+
+// Free-text fields where typos are forgiven. Codes (documents, items) and the fixed lists
+// (districts, reps, groups, statuses) only match as typed: doc:12340 must never bring 12341.
+const FUZZY_FIELDS = new Set<SearchableField>(['clientName', 'itemDesc', 'destination']);
+
+export interface SearchTerm {
+  fields: SearchableField[];
+  text: string; // Already folded
+}
+
+// Alternatives joined by OR, each a list of terms that must all match
+export type SearchQuery = SearchTerm[][];
+
+const foldChar = (char: string) => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Lowercase without accents; offsets[i] is the position in the original text of folded[i]
+const foldWithOffsets = (text: string): { folded: string; offsets: number[] } => {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const part = foldChar(text[i]);
+    folded += part;
+    for (let k = 0; k < part.length; k++) offsets.push(i);
+  }
+  return { folded, offsets };
+};
+
+export const foldText = (text: string): string => foldWithOffsets(text).folded;
+
+// `word`, `prefix:word`, `"two words"` and `prefix:"two words"`
+const TOKEN_PATTERN = /([^\s:"]+:)?"([^"]*)"?|\S+/g;
+
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const groups: SearchQuery = [[]];
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    if (token === 'OR' || token === '|') {
+      groups.push([]);
+      continue;
+    }
+    if (token === 'AND') continue;
+
+    let fields = DEFAULT_FIELDS;
+    let text = match[2] !== undefined ? match[2] : token;
+    const prefix = match[1] || (match[2] === undefined && token.includes(':') ? token.slice(0, token.indexOf(':') + 1) : '');
+    const prefixFields = prefix ? FIELD_PREFIXES[foldText(prefix.slice(0, -1))] : undefined;
+    if (prefixFields) {
+      fields = prefixFields;
+      if (match[2] === undefined) text = token.slice(prefix.length);
+    }
+
+    const folded = foldText(text.trim());
+    if (folded) groups[groups.length - 1].push({ fields, text: folded });
+  }
+  return groups.filter(group => group.length > 0);
+};
+
+// Typos allowed for a term of this length
+const maxErrorsFor = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Closest occurrence of needle in haystack allowing a few typos (approximate substring search).
+// Returns [start, end) in haystack, or null when every occurrence needs too many edits.
+const fuzzyFind = (haystack: string, needle: string, fuzzy: boolean = true): [number, number] | null => {
+  const exact = haystack.indexOf(needle);
+  if (exact >= 0) return [exact, exact + needle.length];
+  if (!fuzzy) return null;
+
+  const maxErrors = maxErrorsFor(needle.length);
+  if (maxErrors === 0) return null;
+
+  const m = needle.length;
+  // dist[i]: edits to match needle[0..i) ending at the current haystack position; start[i]: where that match begins
+  let dist = Array.from({ length: m + 1 }, (_, i) => i);
+  let start = new Array<number>(m + 1).fill(0);
+  let best: [number, number] | null = null;
+  let bestDist = maxErrors + 1;
+
+  for (let j = 1; j <= haystack.length; j++) {
+    const nextDist = [0];
+    const nextStart = [j];
+    for (let i = 1; i <= m; i++) {
+      const substitute = dist[i - 1] + (needle[i - 1] === haystack[j - 1] ? 0 : 1);
+      const skipHaystack = dist[i] + 1;
+      const skipNeedle = nextDist[i - 1] + 1;
+      if (substitute <= skipHaystack && substitute <= skipNeedle) {
+        nextDist.push(substitute);
+        nextStart.push(start[i - 1]);
+      } else if (skipHaystack <= skipNeedle) {
+        nextDist.push(skipHaystack);
+        nextStart.push(start[i]);
+      } else {
+        nextDist.push(skipNeedle);
+        nextStart.push(nextStart[i - 1]);
+      }
+    }
+    if (nextDist[m] < bestDist) {
+      bestDist = nextDist[m];
+      best = [nextStart[m], j];
+    }
+    dist = nextDist;
+    start = nextStart;
+  }
+  return best;
+};
+
+// How a row matches a term: as typed, only with typos, or not at all
+type TermMatch = 'exact' | 'fuzzy' | null;
+
+// Terms that can target a code (e.g. item: searches the code and the description) never allow
+// typos, or item:ABC123 would also bring a description mentioning ABC124
+const allowsTypos = (fields: SearchableField[]) => fields.every(field => FUZZY_FIELDS.has(field));
+
+const termMatch = (row: ProcessedRow, term: SearchTerm): TermMatch => {
+  const values = term.fields.map(field => foldText(row[field] || ''));
+  if (values.some(value => value.includes(term.text))) return 'exact';
+  if (allowsTypos(term.fields) && values.some(value => fuzzyFind(value, term.text) !== null)) return 'fuzzy';
+  return null;
+};
+
+// 0 when some alternative matches as typed, 1 when only with typos, null when none matches
+const matchRank = (row: ProcessedRow, query: SearchQuery): number | null => {
+  let rank: number | null = null;
+  for (const group of query) {
+    const matches = group.map(term => termMatch(row, term));
+    if (matches.some(m => m === null)) continue;
+    if (matches.every(m => m === 'exact')) return 0;
+    rank = 1;
+  }
+  return rank;
+};
+
+export const matchesQuery = (row: ProcessedRow, query: SearchQuery): boolean =>
+  query.length === 0 || matchRank(row, query) !== null;
+
+// Rows matching a query as typed in the search box (every row when it is empty).
+// Rows matched as typed come first, those only matched with typos after, each in load order.
+export const searchRows = (rows: ProcessedRow[], queryText: string): ProcessedRow[] => {
+  const query = parseSearchQuery(queryText);
+  if (query.length === 0) return rows;
+  const exact: ProcessedRow[] = [];
+  const fuzzy: ProcessedRow[] = [];
+  rows.forEach(row => {
+    const rank = matchRank(row, query);
+    if (rank === 0) exact.push(row);
+    else if (rank === 1) fuzzy.push(row);
+  });
+  return exact.concat(fuzzy);
+};
+
+// Terms of any alternative that target the field, for highlighting
+export const getFieldTerms = (query: SearchQuery, field: SearchableField): SearchTerm[] =>
+  query.flatMap(group => group.filter(term => term.fields.includes(field)));
+
+// Ranges [start, end) of the original value matched by the terms, merged and in order
+export const findMatchRanges = (value: string, terms: SearchTerm[]): [number, number][] => {
+  if (!value || terms.length === 0) return [];
+  const { folded, offsets } = foldWithOffsets(value);
+  const ranges = terms
+    .map(term => fuzzyFind(folded, term.text, allowsTypos(term.fields)))
+    .filter((range): range is [number, number] => range !== null && range[1] > range[0])
+    .map(([s, e]): [number, number] => [offsets[s], offsets[e - 1] + 1])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  });
+  return merged;
+};
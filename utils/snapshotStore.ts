@@ -0,0 +1,101 @@
+import { FilterRules, Snapshot, SnapshotSummary } from '../types';
+
+// Summaries and row data live in separate stores so the history list never loads the rows
+const DB_NAME = 'analisis-pedidos';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'snapshots';
+const DATA_STORE = 'snapshot-data';
+
+type SnapshotData = Pick<Snapshot, 'id' | 'sheets' | 'mapping' | 'rows'>;
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SUMMARY_STORE, { keyPath: 'id', autoIncrement: true });
+      db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs one transaction and resolves with the value produced once it commits
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  run: (summaries: IDBObjectStore, data: IDBObjectStore, setResult: (value: T) => void) => void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    let result: T;
+    const tx = db.transaction([SUMMARY_STORE, DATA_STORE], mode);
+    run(tx.objectStore(SUMMARY_STORE), tx.objectStore(DATA_STORE), value => { result = value; });
+    tx.oncomplete = () => {
+      db.close();
+      resolve(result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    // Quota errors abort the transaction without a request error
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('La operación sobre el historial fue cancelada.'));
+    };
+  });
+};
+
+// Newest first
+export const listSnapshots = (): Promise<SnapshotSummary[]> => {
+  return withStores<SnapshotSummary[]>('readonly', (summaries, _data, setResult) => {
+    const request = summaries.getAll();
+    request.onsuccess = () => {
+      const list = request.result as SnapshotSummary[];
+      setResult(list.sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()));
+    };
+  });
+};
+
+export const loadSnapshot = (id: number): Promise<Snapshot | null> => {
+  return withStores<Snapshot | null>('readonly', (summaries, data, setResult) => {
+    const summaryRequest = summaries.get(id);
+    const dataRequest = data.get(id);
+    dataRequest.onsuccess = () => {
+      const summary = summaryRequest.result as SnapshotSummary | undefined;
+      const snapshotData = dataRequest.result as SnapshotData | undefined;
+      setResult(summary && snapshotData ? { ...summary, ...snapshotData } : null);
+    };
+  });
+};
+
+// Creates the snapshot when it has no id yet, otherwise replaces it; resolves with its id
+export const saveSnapshot = (snapshot: Omit<Snapshot, 'id'> & { id?: number }): Promise<number> => {
+  const { id, sheets, mapping, rows, ...summary } = snapshot;
+  return withStores<number>('readwrite', (summaries, data, setResult) => {
+    // The key must be absent, not undefined, for the store to generate one
+    const request = summaries.put(id === undefined ? summary : { ...summary, id });
+    request.onsuccess = () => {
+      const savedId = request.result as number;
+      data.put({ id: savedId, sheets, mapping, rows });
+      setResult(savedId);
+    };
+  });
+};
+
+export const updateSnapshotFilters = (id: number, filters: FilterRules): Promise<void> => {
+  return withStores<void>('readwrite', (summaries) => {
+    const request = summaries.get(id);
+    request.onsuccess = () => {
+      if (request.result) summaries.put({ ...request.result, filters });
+    };
+  });
+};
+
+export const deleteSnapshot = (id: number): Promise<void> => {
+  return withStores<void>('readwrite', (summaries, data) => {
+    summaries.delete(id);
+    data.delete(id);
+  });
+};
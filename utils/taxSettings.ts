@@ -0,0 +1,49 @@
+import { AmountBasis, ProcessedRow, TaxSettings } from '../types';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  rate: 0.18,
+  exemptGroups: [],
+  exemptClients: [],
+};
+
+const STORAGE_KEY = 'analisis-pedidos:tax-settings';
+
+export const loadTaxSettings = (): TaxSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored ? { ...DEFAULT_TAX_SETTINGS, ...stored } : DEFAULT_TAX_SETTINGS;
+  } catch {
+    return DEFAULT_TAX_SETTINGS;
+  }
+};
+
+export const saveTaxSettings = (settings: TaxSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isTaxExempt = (row: ProcessedRow, settings: TaxSettings): boolean => {
+  return settings.exemptGroups.includes(row.groupName) || settings.exemptClients.includes(row.clientName);
+};
+
+// Splits a gross document total into the requested basis (exempt documents have no IGV)
+export const applyAmountBasis = (gross: number, row: ProcessedRow, settings: TaxSettings, basis: AmountBasis): number => {
+  if (basis === AmountBasis.GROSS) return gross;
+  const net = isTaxExempt(row, settings) ? gross : gross / (1 + settings.rate);
+  return basis === AmountBasis.NET ? net : gross - net;
+};
+
+export const formatTaxRate = (rate: number): string => {
+  return `${Number((rate * 100).toFixed(2))}%`;
+};
+
+// Label used in headers and exports to state which basis the amounts are on
+export const getAmountBasisLabel = (basis: AmountBasis, rate: number): string => {
+  switch (basis) {
+    case AmountBasis.GROSS:
+      return 'Montos brutos (con IGV)';
+    case AmountBasis.TAX:
+      return `Solo IGV (${formatTaxRate(rate)})`;
+    default:
+      return `Montos netos (sin IGV ${formatTaxRate(rate)})`;
+  }
+};
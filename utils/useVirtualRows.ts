@@ -0,0 +1,35 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Window of fixed-height rows visible in a scrolling container, plus the space the others would take.
+// Rows outside the window are replaced by two spacers so the scrollbar keeps its real size.
+export const useVirtualRows = (containerRef: RefObject<HTMLElement>, rowCount: number, rowHeight: number, overscan: number = 20) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const update = () => {
+      setScrollTop(el.scrollTop);
+      setViewportHeight(el.clientHeight);
+    };
+    update();
+    el.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    return () => {
+      el.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [containerRef]);
+
+  const start = Math.min(rowCount, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, rowCount - end) * rowHeight,
+  };
+};
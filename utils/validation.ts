@@ -0,0 +1,111 @@
+import { ProcessedRow, ValidationIssue, ValidationIssueType } from '../types';
+
+const ISSUE_TEXT: { [type in ValidationIssueType]: { label: string; description: string } } = {
+  [ValidationIssueType.INVALID_AMOUNT]: {
+    label: 'Total no numérico',
+    description: 'El Total del documento no se pudo leer como número y se cuenta como 0.',
+  },
+  [ValidationIssueType.INVALID_QUANTITY]: {
+    label: 'Cantidad no numérica',
+    description: 'La Cantidad no se pudo leer como número y se cuenta como 0.',
+  },
+  [ValidationIssueType.INVALID_LINE_AMOUNT]: {
+    label: 'Importe de línea no numérico',
+    description: 'El Total de línea o Precio unitario no se pudo leer y la línea queda sin importe propio.',
+  },
+  [ValidationIssueType.NEGATIVE_QUANTITY]: {
+    label: 'Cantidad negativa',
+    description: 'Líneas con cantidad menor a cero.',
+  },
+  [ValidationIssueType.EMPTY_DOC_ID]: {
+    label: 'Documento vacío',
+    description: 'Líneas sin Número de documento: se agrupan como un solo pedido.',
+  },
+  [ValidationIssueType.INCONSISTENT_TOTAL]: {
+    label: 'Total inconsistente',
+    description: 'Líneas de un mismo documento con distinto Total del documento.',
+  },
+  [ValidationIssueType.UNKNOWN_REP]: {
+    label: 'Vendedor desconocido',
+    description: 'Líneas sin empleado del departamento de ventas.',
+  },
+  [ValidationIssueType.MISSING_DISTRICT]: {
+    label: 'Sin condado',
+    description: 'Líneas sin Condado: se reportan como "Sin Condado".',
+  },
+};
+
+// Runs every data quality check; only issue types with at least one row are returned
+export const validateRows = (rows: ProcessedRow[]): ValidationIssue[] => {
+  const found: { [type: string]: ProcessedRow[] } = {};
+  const flag = (type: ValidationIssueType, row: ProcessedRow) => {
+    if (!found[type]) found[type] = [];
+    found[type].push(row);
+  };
+
+  // Totals seen per document, to detect lines that disagree
+  const totalsByDoc = new Map<string, Set<number>>();
+
+  rows.forEach(row => {
+    // NaN only appears in rows saved before unreadable numbers were counted as 0
+    const invalidAmount = row.unparsedValues?.totalAmount !== undefined || Number.isNaN(row.totalAmount);
+    if (invalidAmount) flag(ValidationIssueType.INVALID_AMOUNT, row);
+    if (row.unparsedValues?.quantity !== undefined || Number.isNaN(row.quantity)) flag(ValidationIssueType.INVALID_QUANTITY, row);
+    if (row.unparsedValues?.lineTotal !== undefined || row.unparsedValues?.unitPrice !== undefined) {
+      flag(ValidationIssueType.INVALID_LINE_AMOUNT, row);
+    }
+    if (row.quantity < 0) flag(ValidationIssueType.NEGATIVE_QUANTITY, row);
+    if (!row.docId.trim()) flag(ValidationIssueType.EMPTY_DOC_ID, row);
+    if (!row.salesRep.trim() || row.salesRep === 'Desconocido') flag(ValidationIssueType.UNKNOWN_REP, row);
+    if (!row.district.trim() || row.district === 'Sin Condado') flag(ValidationIssueType.MISSING_DISTRICT, row);
+
+    if (row.docId.trim() && !invalidAmount) {
+      if (!totalsByDoc.has(row.docId)) totalsByDoc.set(row.docId, new Set());
+      totalsByDoc.get(row.docId)!.add(row.totalAmount);
+    }
+  });
+
+  rows.forEach(row => {
+    const totals = totalsByDoc.get(row.docId);
+    if (totals && totals.size > 1) flag(ValidationIssueType.INCONSISTENT_TOTAL, row);
+  });
+
+  return (Object.keys(ISSUE_TEXT) as ValidationIssueType[])
+    .filter(type => found[type])
+    .map(type => ({
+      type,
+      ...ISSUE_TEXT[type],
+      rows: found[type],
+    }));
+};
+
+// Drops the rows flagged by the issue types the user chose to exclude
+export const excludeIssueRows = (
+  rows: ProcessedRow[],
+  issues: ValidationIssue[],
+  excludedTypes: ValidationIssueType[]
+): ProcessedRow[] => {
+  const excludedRows = new Set<ProcessedRow>();
+  issues
+    .filter(issue => excludedTypes.includes(issue.type))
+    .forEach(issue => issue.rows.forEach(row => excludedRows.add(row)));
+
+  if (excludedRows.size === 0) return rows;
+  return rows.filter(row => !excludedRows.has(row));
+};
+
+// Row reference shown to the user; the sheet is included when several were combined
+export const formatRowRef = (row: ProcessedRow, multiSource: boolean): string => {
+  return multiSource ? `${row.sourceSheet}!${row.rowNumber}` : String(row.rowNumber);
+};
+
+// Row reference plus the text that could not be read, for the issues about unreadable numbers
+export const formatIssueRow = (type: ValidationIssueType, row: ProcessedRow, multiSource: boolean): string => {
+  const ref = formatRowRef(row, multiSource);
+  const text =
+    type === ValidationIssueType.INVALID_AMOUNT ? row.unparsedValues?.totalAmount :
+    type === ValidationIssueType.INVALID_QUANTITY ? row.unparsedValues?.quantity :
+    type === ValidationIssueType.INVALID_LINE_AMOUNT ? row.unparsedValues?.lineTotal ?? row.unparsedValues?.unitPrice :
+    undefined;
+  return text !== undefined ? `${ref} ("${text}")` : ref;
+};
@@ -0,0 +1,115 @@
+import { ClientDetail, ColumnFilters, ColumnMapping, DrillDownTarget, LoadProgress, ProcessedRow, RawSheet, ReportOptions, ReportResult, ReportType, ValidationIssue } from '../types';
+import type { IndexedIssue, WorkerRequest, WorkerResponse } from './dataWorker';
+
+// Rejection reason of every request in flight when the user cancels
+export class LoadCancelledError extends Error {
+  constructor() {
+    super('Carga cancelada');
+    this.name = 'LoadCancelledError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+// Last dataset sent, replayed when a worker is recreated after a cancel
+let lastDataset: WorkerRequest | null = null;
+
+const handleMessage = (e: MessageEvent<WorkerResponse>) => {
+  const response = e.data;
+  const request = pending.get(response.id);
+  if (!request) return;
+
+  if (response.type === 'progress') {
+    request.onProgress?.(response.progress);
+    return;
+  }
+  pending.delete(response.id);
+  if (response.type === 'result') request.resolve(response.result);
+  else request.reject(new Error(response.message));
+};
+
+// A worker that fails to load or throws outside a request answers nothing more: every request in
+// flight is rejected and the next one starts a fresh worker
+const handleFailure = () => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(p => p.reject(new Error('El procesamiento de datos se detuvo por un error.')));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = (e: ErrorEvent) => {
+      console.error(e.message);
+      handleFailure();
+    };
+    // A result that cannot be read back cannot be matched to its request either
+    worker.onmessageerror = handleFailure;
+    if (lastDataset) worker.postMessage(lastDataset);
+  }
+  return worker;
+};
+
+// Task requests as the callers write them; the id is assigned here
+type TaskMessage<R = WorkerRequest> = R extends { id: number } ? Omit<R, 'id'> : never;
+
+const request = <T>(message: TaskMessage, onProgress?: (progress: LoadProgress) => void): Promise<T> => {
+  const id = nextId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+    getWorker().postMessage({ ...message, id });
+  });
+};
+
+export const parseFilesInWorker = (files: File[], onProgress?: (progress: LoadProgress) => void): Promise<RawSheet[]> =>
+  request<RawSheet[]>({ type: 'parse', files }, onProgress);
+
+export const combineSheetsInWorker = (sheets: RawSheet[], mapping: ColumnMapping, onProgress?: (progress: LoadProgress) => void): Promise<ProcessedRow[]> =>
+  request<ProcessedRow[]>({ type: 'combine', sheets, mapping }, onProgress);
+
+// Rows (and baseline) that later report requests work on
+export const setWorkerDataset = (rows: ProcessedRow[] | null, baseline: ProcessedRow[] | null) => {
+  lastDataset = { type: 'dataset', rows, baseline };
+  getWorker().postMessage(lastDataset);
+};
+
+// Built on the dataset last sent; its baseline replaces options.baseline
+export const generateReportInWorker = (type: ReportType, options: ReportOptions): Promise<ReportResult> =>
+  request<ReportResult>({ type: 'report', reportType: type, options });
+
+// Issues of the given rows (not the dataset), pointing at the caller's own row objects
+export const validateRowsInWorker = async (rows: ProcessedRow[]): Promise<ValidationIssue[]> => {
+  const issues = await request<IndexedIssue[]>({ type: 'validate', rows });
+  return issues.map(({ rowIndexes, ...issue }) => ({ ...issue, rows: rowIndexes.map(idx => rows[idx]) }));
+};
+
+export const getDrillDownRowsInWorker = (type: ReportType, options: ReportOptions, target: DrillDownTarget): Promise<ProcessedRow[]> =>
+  request<ProcessedRow[]>({ type: 'drillDown', reportType: type, options, target });
+
+export const getClientDetailInWorker = (options: ReportOptions, clientName: string): Promise<ClientDetail> =>
+  request<ClientDetail>({ type: 'clientDetail', options, clientName });
+
+// Lines of the dataset matching a client search, then the grid's column filters
+export const searchRowsInWorker = (query: string, columnFilters: ColumnFilters = {}): Promise<ProcessedRow[]> =>
+  request<ProcessedRow[]>({ type: 'search', query, columnFilters });
+
+// Filtered lines of the dataset in the reporting currency, as the reports aggregate them
+export const getReportLinesInWorker = (options: ReportOptions): Promise<ProcessedRow[]> =>
+  request<ProcessedRow[]>({ type: 'lines', options });
+
+// Stops whatever the worker is doing; a fresh worker is started on the next request
+export const cancelWorkerTasks = () => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(p => p.reject(new LoadCancelledError()));
+  pending.clear();
+};